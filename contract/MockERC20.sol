@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/**
+ * @title MockERC20
+ * @dev Stands in for Wormhole wrapped SOL on local nodes, anyone can mint
+ */
+contract MockERC20 is ERC20 {
+    uint8 private immutable _decimals;
+
+    /**
+     * @dev Constructor
+     * @param name The name of the token
+     * @param symbol The symbol of the token
+     * @param decimals_ The token decimals (8 for wrapped SOL)
+     */
+    constructor(
+        string memory name,
+        string memory symbol,
+        uint8 decimals_
+    ) ERC20(name, symbol) {
+        _decimals = decimals_;
+    }
+
+    function decimals() public view override returns (uint8) {
+        return _decimals;
+    }
+
+    /**
+     * @dev Mint tokens, unrestricted for testing
+     * @param to The recipient address
+     * @param amount The amount to mint
+     */
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+}
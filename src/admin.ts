@@ -0,0 +1,169 @@
+import { ethers } from "ethers";
+import { ERC20_ABI, StakingPool, resolveStakingPool } from "./cross-chain-staking";
+import { ConflictError, NotConfiguredError, NotFoundError, ValidationError } from "./errors";
+import { getEvmProvider, getEvmWallet, retryRead, sendTransaction } from "./evm";
+
+// Owner-only administration of the LoanToken and CrossChainStaking contracts, signed with ADMIN_PRIVATE_KEY.
+// Kept apart from the user flows, which only check the configuration (see verifyStakingPool).
+
+const OWNABLE_ABI = ["function owner() external view returns (address)"];
+
+const LOAN_TOKEN_ADMIN_ABI = [
+  ...OWNABLE_ABI,
+  "function addMinter(address minter) external",
+  "function removeMinter(address minter) external",
+  "function minters(address minter) external view returns (bool)",
+];
+
+const STAKING_ADMIN_ABI = [
+  ...OWNABLE_ABI,
+  "function updateLoanRatio(uint256 newRatio) external",
+  "function updateStakingToken(address newToken) external",
+  "function updateLoanToken(address newToken) external",
+  "function emergencyWithdraw(address token, uint256 amount) external",
+  "function stakingToken() external view returns (address)",
+  "function loanToken() external view returns (address)",
+  "function loanRatio() external view returns (uint256)",
+  "function totalStaked() external view returns (uint256)",
+];
+
+function getAdminWallet(): ethers.Wallet {
+  const privateKey = process.env.ADMIN_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new NotConfiguredError("Missing ADMIN_PRIVATE_KEY environment variable");
+  }
+  return getEvmWallet(privateKey);
+}
+
+// Contract connected to the admin wallet, after checking the wallet owns it
+async function connectAsOwner(address: string, abi: string[]): Promise<ethers.Contract> {
+  const wallet = getAdminWallet();
+  const contract = new ethers.Contract(address, abi, wallet);
+  const owner: string = await contract.owner();
+  if (owner.toLowerCase() !== wallet.address.toLowerCase()) {
+    throw new NotConfiguredError(`Admin wallet ${wallet.address} is not the owner of ${address} (owner is ${owner})`);
+  }
+  return contract;
+}
+
+// Send an owner call and wait for it to confirm
+async function sendAdminTransaction(contract: ethers.Contract, method: string, args: unknown[]) {
+  console.log(`Sending ${method}(${args.join(", ")}) to ${await contract.getAddress()}...`);
+  const tx = await sendTransaction(getAdminWallet(), await contract[method].populateTransaction(...args));
+  console.log(`${method} transaction submitted, transaction hash: ${tx.hash}`);
+  await retryRead(() => tx.wait());
+  console.log(`${method} transaction confirmed`);
+  return { transactionHash: tx.hash as string };
+}
+
+function assertAddress(address: string, name: string) {
+  if (!ethers.isAddress(address)) {
+    throw new ValidationError(`Invalid ${name}: ${address}`);
+  }
+}
+
+// Owners, wiring and minter status of a pool's contracts
+export async function getAdminStatus(sourceToken: string = "native") {
+  const pool = await resolveStakingPool(sourceToken);
+  const provider = getEvmProvider();
+  const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ADMIN_ABI, provider);
+  const loanTokenContract = new ethers.Contract(pool.loanToken, LOAN_TOKEN_ADMIN_ABI, provider);
+
+  const [stakingOwner, loanTokenOwner, stakingToken, loanToken, loanRatio, totalStaked, isMinter] = await Promise.all([
+    stakingContract.owner() as Promise<string>,
+    loanTokenContract.owner() as Promise<string>,
+    stakingContract.stakingToken() as Promise<string>,
+    stakingContract.loanToken() as Promise<string>,
+    stakingContract.loanRatio() as Promise<bigint>,
+    stakingContract.totalStaked() as Promise<bigint>,
+    loanTokenContract.minters(pool.stakingContract) as Promise<boolean>,
+  ]);
+
+  return {
+    ...pool,
+    adminAddress: process.env.ADMIN_PRIVATE_KEY ? getAdminWallet().address : undefined,
+    stakingOwner,
+    loanTokenOwner,
+    stakingToken,
+    onChainLoanToken: loanToken,
+    loanRatio: loanRatio.toString(),
+    totalStaked: totalStaked.toString(),
+    isMinter,
+  };
+}
+
+// Allow an address (the pool's staking contract by default) to mint and burn loan tokens
+export async function addMinter(minter?: string, sourceToken: string = "native") {
+  const pool = await resolveStakingPool(sourceToken);
+  const target = minter ?? pool.stakingContract;
+  assertAddress(target, "minter address");
+  const loanToken = await connectAsOwner(pool.loanToken, LOAN_TOKEN_ADMIN_ABI);
+  return sendAdminTransaction(loanToken, "addMinter", [target]);
+}
+
+export async function removeMinter(minter: string, sourceToken: string = "native") {
+  const pool = await resolveStakingPool(sourceToken);
+  assertAddress(minter, "minter address");
+  const loanToken = await connectAsOwner(pool.loanToken, LOAN_TOKEN_ADMIN_ABI);
+  if (!(await loanToken.minters(minter))) {
+    throw new NotFoundError(`${minter} is not a minter of ${pool.loanToken}`);
+  }
+  return sendAdminTransaction(loanToken, "removeMinter", [minter]);
+}
+
+// Loan tokens minted per staked base unit, e.g. 10 for 10x
+export async function updateLoanRatio(ratio: string, sourceToken: string = "native") {
+  if (!/^\d+$/.test(ratio) || BigInt(ratio) <= 0n) {
+    throw new ValidationError(`Loan ratio must be a positive integer, got ${ratio}`);
+  }
+  const pool = await resolveStakingPool(sourceToken);
+  const staking = await connectAsOwner(pool.stakingContract, STAKING_ADMIN_ABI);
+  return sendAdminTransaction(staking, "updateLoanRatio", [BigInt(ratio)]);
+}
+
+// Token swaps are only allowed by the contract while nothing is staked
+async function assertNothingStaked(staking: ethers.Contract, pool: StakingPool) {
+  const totalStaked: bigint = await staking.totalStaked();
+  if (totalStaked > 0n) {
+    throw new ConflictError(`Cannot change tokens of ${pool.stakingContract} while funds are staked`);
+  }
+}
+
+// Point the staking contract at another staking token; deployment.json has to follow
+export async function updateStakingToken(newToken: string, sourceToken: string = "native") {
+  assertAddress(newToken, "token address");
+  const pool = await resolveStakingPool(sourceToken);
+  const staking = await connectAsOwner(pool.stakingContract, STAKING_ADMIN_ABI);
+  await assertNothingStaked(staking, pool);
+  return sendAdminTransaction(staking, "updateStakingToken", [newToken]);
+}
+
+// Point the staking contract at another loan token; deployment.json has to follow
+export async function updateLoanToken(newToken: string, sourceToken: string = "native") {
+  assertAddress(newToken, "token address");
+  const pool = await resolveStakingPool(sourceToken);
+  const staking = await connectAsOwner(pool.stakingContract, STAKING_ADMIN_ABI);
+  await assertNothingStaked(staking, pool);
+  return sendAdminTransaction(staking, "updateLoanToken", [newToken]);
+}
+
+// Send tokens held by the staking contract to its owner. amt is in the withdrawn token's units.
+export async function emergencyWithdraw(token: string, amt: string, sourceToken: string = "native") {
+  assertAddress(token, "token address");
+  const pool = await resolveStakingPool(sourceToken);
+  const staking = await connectAsOwner(pool.stakingContract, STAKING_ADMIN_ABI);
+
+  const tokenContract = new ethers.Contract(token, ERC20_ABI, getEvmProvider());
+  const decimals = await tokenContract.decimals();
+  let units: bigint;
+  try {
+    units = ethers.parseUnits(amt, decimals);
+  } catch {
+    throw new ValidationError(`Invalid withdraw amount: ${amt} (token has ${decimals} decimals)`);
+  }
+  const held: bigint = await tokenContract.balanceOf(pool.stakingContract);
+  if (units <= 0n || units > held) {
+    throw new ValidationError(`Withdraw amount must be positive and at most the ${ethers.formatUnits(held, decimals)} held by the staking contract`);
+  }
+  return sendAdminTransaction(staking, "emergencyWithdraw", [token, units]);
+}
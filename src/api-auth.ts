@@ -0,0 +1,254 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { ethers } from "ethers";
+import { NextFunction, Request, Response } from "express";
+import { z } from "zod";
+import { SpendLimitError } from "./errors";
+
+// API keys for the routes that sign with the server's wallets, a request rate limit per client and
+// a spend budget per key: a maximum per operation and per UTC day, in units of the token moved.
+
+export interface ApiKey {
+  name: string;
+  key: string;
+  // Override the RATE_LIMIT_PER_MINUTE and SPEND_LIMIT_* defaults for this key
+  rateLimitPerMinute?: number;
+  maxPerOperation?: string;
+  maxPerDay?: string;
+}
+
+// Decimal amounts, as strings or plain JSON numbers
+const decimal = z
+  .union([z.string(), z.number()])
+  .transform(value => String(value).trim())
+  .refine(value => /^\d+(\.\d+)?$/.test(value), "must be a decimal number");
+
+const apiKeySchema = z.object({
+  name: z.string().trim().min(1, "is required"),
+  key: z.string().min(16, "must be at least 16 characters"),
+  rateLimitPerMinute: z.number().int().positive().optional(),
+  maxPerOperation: decimal.optional(),
+  maxPerDay: decimal.optional(),
+});
+
+// Name the entry and field of the first problem, never the key itself
+function describeIssue(error: z.ZodError, label: (index: number) => string): string {
+  const issue = error.issues[0];
+  const [index, ...field] = issue.path;
+  return `${label(Number(index))}: ${field.length > 0 ? `${field.join(".")} ` : ""}${issue.message}`;
+}
+
+// Spend totals of the current day, kept next to the job store
+const SPEND_FILE = process.env.SPEND_FILE || path.join(__dirname, "../data/spend.json");
+
+// Limits are compared at 18 decimals, more than any supported token has
+const SPEND_DECIMALS = 18;
+
+// Keys from API_KEYS ("name:key,...") and API_KEYS_FILE (a JSON array of ApiKey), by key hash
+let apiKeys: Map<string, ApiKey> | null = null;
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function loadApiKeys(): Map<string, ApiKey> {
+  if (!apiKeys) {
+    const keys: unknown[] = (process.env.API_KEYS ?? "")
+      .split(",")
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const separator = entry.indexOf(":");
+        if (separator <= 0 || separator === entry.length - 1) {
+          throw new Error(`Invalid API_KEYS entry "${entry.split(":")[0]}" (expected name:key)`);
+        }
+        return { name: entry.slice(0, separator), key: entry.slice(separator + 1) };
+      });
+
+    const file = process.env.API_KEYS_FILE;
+    if (file) {
+      const entries = JSON.parse(fs.readFileSync(file, "utf8"));
+      if (!Array.isArray(entries)) {
+        throw new Error(`${file} must hold an array of API keys`);
+      }
+      keys.push(...entries);
+    }
+
+    const parsed = z.array(apiKeySchema).safeParse(keys);
+    if (!parsed.success) {
+      throw new Error(`Invalid API key ${describeIssue(parsed.error, index => {
+        const name = (keys[index] as { name?: unknown } | null)?.name;
+        return typeof name === "string" && name ? name : `#${index + 1}`;
+      })}`);
+    }
+
+    apiKeys = new Map();
+    for (const entry of parsed.data) {
+      for (const limit of [entry.maxPerOperation, entry.maxPerDay]) {
+        if (limit !== undefined) {
+          parseLimit(limit, `spend limit of API key ${entry.name}`);
+        }
+      }
+      apiKeys.set(hashKey(entry.key), entry);
+    }
+  }
+  return apiKeys;
+}
+
+// Load the keys up front, so an invalid entry stops the server at startup rather than failing requests
+export function checkApiKeys() {
+  loadApiKeys();
+}
+
+// Server-signing routes are open only when explicitly asked for, for local development
+export function isApiAuthDisabled(): boolean {
+  return process.env.API_AUTH_DISABLED === "true";
+}
+
+function parseLimit(value: string, name: string): bigint {
+  try {
+    return ethers.parseUnits(value, SPEND_DECIMALS);
+  } catch {
+    throw new Error(`Invalid ${name}: ${value} (expected a decimal number)`);
+  }
+}
+
+function envLimit(name: string): bigint | undefined {
+  const value = process.env[name];
+  return value ? parseLimit(value, name) : undefined;
+}
+
+function getApiKey(res: Pick<Response, "locals">): ApiKey | undefined {
+  return res.locals.apiKey;
+}
+
+// Reads X-API-Key on every API request: an unknown key is refused, a known one identifies the
+// client for rate limits, spend limits and requireApiKey
+export function identifyClient(req: Request, res: Response, next: NextFunction) {
+  const provided = req.header("X-API-Key");
+  if (provided !== undefined) {
+    const apiKey = loadApiKeys().get(hashKey(provided));
+    if (!apiKey) {
+      return res.status(401).json({ success: false, code: "UNAUTHORIZED", message: "Invalid API key" });
+    }
+    res.locals.apiKey = apiKey;
+  }
+  next();
+}
+
+// Routes that sign with the server's wallets need a valid X-API-Key
+export function requireApiKey(req: Request, res: Response, next: NextFunction) {
+  if (getApiKey(res) || isApiAuthDisabled()) {
+    return next();
+  }
+  if (loadApiKeys().size === 0) {
+    return res.status(503).json({ success: false, code: "NOT_CONFIGURED", message: "No API keys are configured, set API_KEYS or API_KEYS_FILE to enable this route" });
+  }
+  return res.status(401).json({ success: false, code: "UNAUTHORIZED", message: "This route requires an X-API-Key header" });
+}
+
+// Requests in the current minute, by key name or client IP
+const windows = new Map<string, { start: number; count: number }>();
+
+// Fixed one-minute windows, RATE_LIMIT_PER_MINUTE requests (default 120) per key or per IP without one
+export function rateLimit(req: Request, res: Response, next: NextFunction) {
+  const apiKey = getApiKey(res);
+  const client = apiKey ? `key:${apiKey.name}` : `ip:${req.ip}`;
+  const limit = apiKey?.rateLimitPerMinute ?? (Number(process.env.RATE_LIMIT_PER_MINUTE) || 120);
+  const now = Date.now();
+
+  let window = windows.get(client);
+  if (!window || now - window.start >= 60_000) {
+    // Forget clients whose window ended, so the map doesn't grow with every IP ever seen
+    for (const [id, other] of windows) {
+      if (now - other.start >= 60_000) {
+        windows.delete(id);
+      }
+    }
+    window = { start: now, count: 0 };
+    windows.set(client, window);
+  }
+  window.count++;
+
+  res.setHeader("X-RateLimit-Limit", String(limit));
+  res.setHeader("X-RateLimit-Remaining", String(Math.max(limit - window.count, 0)));
+  if (window.count > limit) {
+    res.setHeader("Retry-After", String(Math.ceil((window.start + 60_000 - now) / 1000)));
+    return res.status(429).json({ success: false, code: "RATE_LIMITED", message: `Rate limit of ${limit} requests per minute exceeded, try again later` });
+  }
+  next();
+}
+
+const spendStoreSchema = z.object({
+  // UTC date the totals are for, they start over the next day
+  day: z.string(),
+  // Amount spent by "<key name>|<source token>"
+  totals: z.record(z.string().regex(/^\d+(\.\d+)?$/)),
+});
+
+type SpendStore = z.infer<typeof spendStoreSchema>;
+
+let spend: SpendStore | null = null;
+
+// The saved totals, or none when the file is missing or unreadable
+function readSpendFile(): SpendStore | null {
+  if (!fs.existsSync(SPEND_FILE)) {
+    return null;
+  }
+  try {
+    const parsed = spendStoreSchema.safeParse(JSON.parse(fs.readFileSync(SPEND_FILE, "utf8")));
+    if (parsed.success) {
+      return parsed.data;
+    }
+    console.error(`Ignoring ${SPEND_FILE}, it doesn't hold spend totals: ${parsed.error.issues[0].path.join(".")} ${parsed.error.issues[0].message}`);
+  } catch (error: any) {
+    console.error(`Ignoring unreadable ${SPEND_FILE}: ${error?.message ?? error}`);
+  }
+  return null;
+}
+
+function loadSpend(): SpendStore {
+  const day = new Date().toISOString().slice(0, 10);
+  if (!spend) {
+    spend = readSpendFile() ?? { day, totals: {} };
+  }
+  if (spend!.day !== day) {
+    spend = { day, totals: {} };
+  }
+  return spend!;
+}
+
+// Write the totals to a temp file and rename it, as the job store does
+function saveSpend() {
+  fs.mkdirSync(path.dirname(SPEND_FILE), { recursive: true });
+  const tmpFile = `${SPEND_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(loadSpend(), null, 2));
+  fs.renameSync(tmpFile, SPEND_FILE);
+}
+
+// Count an operation against the client's spend limits, or throw SpendLimitError when it would
+// exceed one. The amount is counted when the operation is accepted, whether or not it succeeds.
+export function reserveSpend(res: Pick<Response, "locals">, sourceToken: string, amount: string) {
+  const apiKey = getApiKey(res);
+  const perOperation = apiKey?.maxPerOperation !== undefined ? parseLimit(apiKey.maxPerOperation, "maxPerOperation") : envLimit("SPEND_LIMIT_PER_OPERATION");
+  const perDay = apiKey?.maxPerDay !== undefined ? parseLimit(apiKey.maxPerDay, "maxPerDay") : envLimit("SPEND_LIMIT_PER_DAY");
+  const value = ethers.parseUnits(amount, SPEND_DECIMALS);
+
+  if (perOperation !== undefined && value > perOperation) {
+    throw new SpendLimitError(`Amount ${amount} is above the limit of ${ethers.formatUnits(perOperation, SPEND_DECIMALS)} per operation`);
+  }
+
+  const store = loadSpend();
+  const id = `${apiKey?.name ?? "anonymous"}|${sourceToken}`;
+  const total = ethers.parseUnits(store.totals[id] ?? "0", SPEND_DECIMALS) + value;
+  if (perDay !== undefined && total > perDay) {
+    const remaining = perDay - (total - value);
+    throw new SpendLimitError(
+      `Amount ${amount} would exceed the daily limit of ${ethers.formatUnits(perDay, SPEND_DECIMALS)}, ${ethers.formatUnits(remaining > 0n ? remaining : 0n, SPEND_DECIMALS)} left today`
+    );
+  }
+
+  store.totals[id] = ethers.formatUnits(total, SPEND_DECIMALS);
+  saveSpend();
+}
@@ -0,0 +1,87 @@
+import { Chain } from "@wormhole-foundation/sdk";
+import { createWormholeBridgeClient } from "./wormhole-bridge";
+
+// The token bridge leg of the staking flow. The Wormhole SDK client is used unless another one is set,
+// e.g. the in-process fake from fake-bridge.ts to run the flow without live networks.
+
+// A transfer of a token from one chain to the server's wallet on another
+export interface BridgeTransferRequest {
+  fromChain: Chain;
+  toChain: Chain;
+  // "native" or a token address on fromChain
+  token: string;
+  // In the token's own units
+  amount: string;
+  // Let a relayer redeem on toChain in exchange for a fee
+  automatic: boolean;
+  // Automatic only: part of the amount swapped for toChain's native token
+  nativeGas?: string;
+}
+
+export interface BridgeQuote {
+  // Amounts in source token units
+  sourceAmount: string;
+  relayerFee: string;
+  // Received on the destination after fees, in destination token units
+  destinationAmount: string;
+  // Native token received on the destination from the gas drop-off
+  destinationNativeGas: string;
+  // Estimated seconds until the VAA is available
+  eta?: number;
+  warnings: string[];
+}
+
+// A transfer that has been initiated, handed back to the client for every later step
+export interface BridgeTransfer {
+  fromChain: Chain;
+  toChain: Chain;
+  // "native" or the token address on fromChain
+  token: string;
+  // In source token units
+  amount: string;
+  automatic: boolean;
+  // Recipient on toChain
+  to: string;
+  // Source chain transactions, the Wormhole message is published by the last one
+  txids: string[];
+  // Received on the destination after relayer fees, when known
+  destinationAmount?: string;
+}
+
+export interface BridgeClient {
+  // Address of the server's wallet on a chain
+  getAddress(chain: Chain): Promise<string>;
+  getDecimals(chain: Chain, token: string): Promise<number>;
+  // Token the chain's native currency is bridged as, e.g. the wrapped SOL mint. Transfers rebuilt by
+  // recoverTransfer name it instead of "native".
+  getNativeWrappedToken(chain: Chain): Promise<string>;
+  // Wrapped counterpart on toChain of a token on fromChain; throws when the token is not attested there
+  lookupWrappedToken(fromChain: Chain, toChain: Chain, token: string): Promise<string>;
+  // Throws when the amount doesn't cover the relayer fee and native gas
+  quoteTransfer(request: BridgeTransferRequest): Promise<BridgeQuote>;
+  // Sign and send the transfer on the source chain with the server's wallet
+  initiateTransfer(request: BridgeTransferRequest): Promise<BridgeTransfer>;
+  // Rebuild a transfer from its source chain transaction, native transfers name the native wrapped token
+  recoverTransfer(chain: Chain, txid: string, timeout: number): Promise<BridgeTransfer>;
+  // Wait up to timeout ms for the VAA, returns its ids
+  fetchAttestation(transfer: BridgeTransfer, timeout: number): Promise<string[]>;
+  // Redeem on the destination with the server's wallet; fails with "transfer already completed"
+  // when someone else redeemed it first
+  completeTransfer(transfer: BridgeTransfer): Promise<string[]>;
+  // Whether the transfer has been redeemed on the destination, by anyone
+  isTransferComplete(transfer: BridgeTransfer): Promise<boolean>;
+}
+
+let client: BridgeClient | null = null;
+
+export function getBridgeClient(): BridgeClient {
+  if (!client) {
+    client = createWormholeBridgeClient();
+  }
+  return client;
+}
+
+// Replace the bridge used by every transfer from now on
+export function setBridgeClient(bridge: BridgeClient) {
+  client = bridge;
+}
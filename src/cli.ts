@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+import { ethers } from "ethers";
+import {
+  executeCrossChainTransfer,
+  executeStaking,
+  executeUnstake,
+  getStakeInfo,
+  waitForArrival,
+} from "./cross-chain-staking";
+import { dryRunCrossChainStake, dryRunTransfer, dryRunUnstake } from "./dry-run";
+import { AttestationTimeoutError, toAppError } from "./errors";
+import { getPositionHealth } from "./valuation";
+
+const USAGE = `Usage: ccs <command> [options]
+
+Commands:
+  transfer --amount <n> [--token <t>] [--automatic] [--native-gas <n>] [--dry-run]
+      Bridge tokens from the source chain to the destination chain
+  stake --amount <n> [--stake-amount <n> | --stake-all] [--token <t>] [--automatic] [--native-gas <n>] [--dry-run]
+      Bridge tokens, wait for them to arrive and stake them
+  unstake [--amount <n>] [--token <t>] [--dry-run]
+      Unstake the amount, or the whole position when omitted
+  status [--address <a>] [--token <t>]
+      Show the staked and loaned amounts of an address, the server wallet by default
+  health [--address <a>] [--token <t>]
+      Show the USD value, loan-to-value and health factor of an address's position
+
+Options:
+  --dry-run  Print the plan with balances, simulations and fees, send nothing
+  --json     Print the result as JSON on stdout, logs go to stderr
+  --help     Show this message
+
+Exit codes: 0 success, 1 operation failed (or a dry run found problems), 2 invalid usage`;
+
+// Invalid arguments, reported with the usage text and exit code 2
+class UsageError extends Error {}
+
+// Flags that take no value
+const BOOLEAN_FLAGS = new Set(["json", "help", "automatic", "stake-all", "dry-run"]);
+
+// Flags accepted by each command, on top of --json and --help
+const COMMAND_FLAGS: Record<string, string[]> = {
+  transfer: ["amount", "token", "automatic", "native-gas", "dry-run"],
+  stake: ["amount", "stake-amount", "stake-all", "token", "automatic", "native-gas", "dry-run"],
+  unstake: ["amount", "token", "dry-run"],
+  status: ["address", "token"],
+  health: ["address", "token"],
+};
+
+function parseArgs(argv: string[]) {
+  const [command, ...rest] = argv;
+  const flags: Record<string, string | boolean> = {};
+
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (!arg.startsWith("--")) {
+      throw new UsageError(`Unexpected argument: ${arg}`);
+    }
+    const name = arg.slice(2);
+    if (BOOLEAN_FLAGS.has(name)) {
+      flags[name] = true;
+    } else {
+      const value = rest[++i];
+      if (value === undefined || value.startsWith("--")) {
+        throw new UsageError(`--${name} requires a value`);
+      }
+      flags[name] = value;
+    }
+  }
+
+  if (flags.help || command === undefined || command === "help" || command === "--help") {
+    return { command: "help", flags };
+  }
+  const allowed = COMMAND_FLAGS[command];
+  if (!allowed) {
+    throw new UsageError(`Unknown command: ${command}`);
+  }
+  for (const name of Object.keys(flags)) {
+    if (name !== "json" && !allowed.includes(name)) {
+      throw new UsageError(`Unknown option for ${command}: --${name}`);
+    }
+  }
+  return { command, flags };
+}
+
+// Positive decimal amount from a flag
+function amountFlag(flags: Record<string, string | boolean>, name: string, required: boolean): string | undefined {
+  const value = flags[name];
+  if (value === undefined) {
+    if (required) {
+      throw new UsageError(`--${name} is required`);
+    }
+    return undefined;
+  }
+  if (typeof value !== "string" || !/^\d*\.?\d+$/.test(value) || !(parseFloat(value) > 0)) {
+    throw new UsageError(`--${name} must be a positive number`);
+  }
+  return value;
+}
+
+function transferOptions(flags: Record<string, string | boolean>) {
+  if (flags["native-gas"] !== undefined && !flags.automatic) {
+    throw new UsageError("--native-gas requires --automatic");
+  }
+  return {
+    token: (flags.token as string | undefined) ?? "native",
+    automatic: flags.automatic === true,
+    nativeGas: amountFlag(flags, "native-gas", false),
+  };
+}
+
+// Bridge, pointing to the recover command when the VAA doesn't arrive in time. No redeem
+// transactions is not a failure, the transfer had already been redeemed by someone else.
+async function runTransfer(amount: string, flags: Record<string, string | boolean>) {
+  try {
+    return await executeCrossChainTransfer(amount, undefined, transferOptions(flags));
+  } catch (error) {
+    if (error instanceof AttestationTimeoutError && error.txid) {
+      throw new AttestationTimeoutError(`${error.message}, finish it with: npm run recover -- ${error.txid}`, error.txid, error);
+    }
+    throw error;
+  }
+}
+
+async function run(command: string, flags: Record<string, string | boolean>) {
+  switch (command) {
+    case "transfer": {
+      if (flags["dry-run"]) {
+        return dryRunTransfer(amountFlag(flags, "amount", true)!, transferOptions(flags));
+      }
+      const result = await runTransfer(amountFlag(flags, "amount", true)!, flags);
+      return {
+        sourceAddress: result.sourceAddress,
+        destinationAddress: result.destinationAddress,
+        amount: result.amount,
+        destinationAmount: result.destinationAmount,
+        sourceToken: result.sourceToken,
+        wormholeHash: result.wormholeHash,
+        redeemHashes: result.redeemHashes,
+      };
+    }
+    case "stake": {
+      const stakeAmount = amountFlag(flags, "stake-amount", false);
+      if (stakeAmount !== undefined && flags["stake-all"]) {
+        throw new UsageError("Use either --stake-amount or --stake-all, not both");
+      }
+      const amount = amountFlag(flags, "amount", true)!;
+
+      if (flags["dry-run"]) {
+        const { token, ...options } = transferOptions(flags);
+        return dryRunCrossChainStake(amount, { amount: stakeAmount, stakeAll: flags["stake-all"] === true || undefined, token }, options);
+      }
+
+      const transfer = await runTransfer(amount, flags);
+      const arrival = await waitForArrival(transfer.destinationAddress, transfer.amount, {
+        redeemTxids: transfer.redeemHashes,
+        balanceBefore: transfer.balanceBefore,
+        token: transfer.sourceToken,
+        destinationAmount: transfer.destinationAmount,
+      });
+
+      const staking = await executeStaking(
+        transfer.destinationAddress,
+        flags["stake-all"]
+          ? { stakeAll: true, token: transfer.sourceToken }
+          : { amount: stakeAmount ?? arrival.received, token: transfer.sourceToken }
+      );
+      if (!staking) {
+        throw new Error("No Wrapped SOL to stake, please ensure cross-chain transfer was successful");
+      }
+      return {
+        wormholeHash: transfer.wormholeHash,
+        redeemHashes: transfer.redeemHashes,
+        received: arrival.received,
+        stakedAmount: staking.stakedAmount,
+        loanedAmount: staking.loanedAmount,
+      };
+    }
+    case "unstake": {
+      if (flags["dry-run"]) {
+        const plan = await dryRunUnstake(amountFlag(flags, "amount", false), (flags.token as string | undefined) ?? "native");
+        if (!plan) {
+          throw new Error("No stakes to unstake");
+        }
+        return plan;
+      }
+      const result = await executeUnstake(amountFlag(flags, "amount", false), undefined, (flags.token as string | undefined) ?? "native");
+      if (!result) {
+        throw new Error("No stakes to unstake");
+      }
+      return result;
+    }
+    case "status": {
+      if (flags.address !== undefined && !ethers.isAddress(flags.address)) {
+        throw new UsageError("--address must be a valid EVM address");
+      }
+      return getStakeInfo((flags.token as string | undefined) ?? "native", flags.address as string | undefined);
+    }
+    case "health": {
+      if (flags.address !== undefined && !ethers.isAddress(flags.address)) {
+        throw new UsageError("--address must be a valid EVM address");
+      }
+      return getPositionHealth((flags.token as string | undefined) ?? "native", flags.address as string | undefined);
+    }
+  }
+}
+
+(async function () {
+  let json = process.argv.includes("--json");
+  try {
+    const { command, flags } = parseArgs(process.argv.slice(2));
+    json = flags.json === true;
+
+    if (command === "help") {
+      console.log(USAGE);
+      process.exit(0);
+    }
+
+    // Keep stdout for the result only
+    if (json) {
+      console.log = (...args: any[]) => console.error(...args);
+    }
+
+    const result = await run(command, flags);
+    // A dry run that found problems still prints its plan, but fails
+    const success = !(result && "ok" in result && result.ok === false);
+    process.stdout.write(json ? JSON.stringify({ success, ...result }) + "\n" : `${formatResult(result!)}\n`);
+    process.exit(success ? 0 : 1);
+  } catch (error: any) {
+    const usage = error instanceof UsageError;
+    const message = error?.message || String(error);
+    // Same codes as the API, see errors.ts
+    const code = usage ? "INVALID_REQUEST" : toAppError(error).code;
+    if (json) {
+      process.stdout.write(JSON.stringify({ success: false, code, message }) + "\n");
+    } else {
+      console.error(usage ? `${message}\n\n${USAGE}` : `Error (${code}): ${message}`);
+    }
+    process.exit(usage ? 2 : 1);
+  }
+})();
+
+// One "key: value" line per field, nested objects (dry run plans) indented below their key
+function formatResult(result: object, indent: string = ""): string {
+  return Object.entries(result)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      if (Array.isArray(value) && value.some(item => typeof item === "object")) {
+        return `${indent}${key}:\n${value.map(item => `${indent}  -\n${formatResult(item, indent + "    ")}`).join("\n")}`;
+      }
+      if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+        return `${indent}${key}:\n${formatResult(value, indent + "  ")}`;
+      }
+      return `${indent}${key}: ${Array.isArray(value) ? value.join(", ") : value}`;
+    })
+    .join("\n");
+}
@@ -0,0 +1,237 @@
+import fs from "fs";
+import path from "path";
+import { Chain, Network, chainToPlatform, isChain, isNetwork } from "@wormhole-foundation/sdk";
+import { ethers } from "ethers";
+import { config } from "dotenv";
+
+// Load environment variables
+config();
+
+// Contracts deployed on an EVM chain that can be the staking destination
+export interface ChainContracts {
+  // CrossChainStaking contract
+  stakingContract: string;
+  // LoanToken (CCLT) contract
+  loanToken: string;
+  // Wormhole wrapped version of the source chain's native token (wrapped SOL)
+  wrappedToken: string;
+  // Block the staking contract was deployed in, where the event indexer starts
+  startBlock?: number;
+}
+
+// Staking contract for a non-native source token
+export interface StakingPoolConfig {
+  // Token on the source chain: a mint or contract address
+  sourceToken: string;
+  stakingContract: string;
+  loanToken: string;
+  // Wrapped token on the destination, resolved through the token bridge when omitted
+  wrappedToken?: string;
+  startBlock?: number;
+}
+
+export interface ChainSettings {
+  // RPC endpoint, defaults to the Wormhole SDK's public endpoint for the network
+  rpc?: string;
+  // Further endpoints, tried in order when rpc fails (destination chain only)
+  rpcFallbacks?: string[];
+  // Contracts for the source chain's native token
+  contracts?: ChainContracts;
+  // Contracts for additional bridged tokens
+  pools?: StakingPoolConfig[];
+}
+
+// USD price of a destination token: a fixed amount, or a Pyth price feed
+export interface PriceFeedConfig {
+  usd?: string;
+  // Pyth price feed id, read from Hermes
+  pythFeedId?: string;
+}
+
+export interface DeploymentConfig {
+  network: Network;
+  sourceChain: Chain;
+  destinationChain: Chain;
+  chains: Partial<Record<Chain, ChainSettings>>;
+  // Price feeds by destination token address (wrapped tokens and loan tokens), for position health
+  prices?: Record<string, PriceFeedConfig>;
+}
+
+// Deployment file location, override with DEPLOYMENT_CONFIG to switch between deployments
+const CONFIG_FILE = process.env.DEPLOYMENT_CONFIG || path.join(__dirname, "../deployment.json");
+
+let deployment: DeploymentConfig | null = null;
+
+// Apply environment variable overrides on top of the deployment file
+function applyEnvOverrides(raw: any): any {
+  const env = process.env;
+  const result = { ...raw, chains: { ...(raw.chains ?? {}) } };
+
+  if (env.WORMHOLE_NETWORK) result.network = env.WORMHOLE_NETWORK;
+  if (env.SOURCE_CHAIN) result.sourceChain = env.SOURCE_CHAIN;
+  if (env.DESTINATION_CHAIN) result.destinationChain = env.DESTINATION_CHAIN;
+
+  // Existing RPC variables keep working for the source and destination chains
+  const source = { ...(result.chains[result.sourceChain] ?? {}) };
+  if (env.NEXT_PUBLIC_SOL_RPC_URL) source.rpc = env.NEXT_PUBLIC_SOL_RPC_URL;
+  result.chains[result.sourceChain] = source;
+
+  const destination = { ...(result.chains[result.destinationChain] ?? {}) };
+  if (env.NEXT_PUBLIC_ETH_RPC_URL) destination.rpc = env.NEXT_PUBLIC_ETH_RPC_URL;
+  if (env.ETH_RPC_FALLBACK_URLS) destination.rpcFallbacks = env.ETH_RPC_FALLBACK_URLS.split(",").map(url => url.trim()).filter(Boolean);
+  const contracts = { ...(destination.contracts ?? {}) };
+  if (env.STAKING_CONTRACT_ADDRESS) contracts.stakingContract = env.STAKING_CONTRACT_ADDRESS;
+  if (env.LOAN_TOKEN_ADDRESS) contracts.loanToken = env.LOAN_TOKEN_ADDRESS;
+  if (env.WRAPPED_TOKEN_ADDRESS) contracts.wrappedToken = env.WRAPPED_TOKEN_ADDRESS;
+  if (env.STAKING_START_BLOCK) contracts.startBlock = Number(env.STAKING_START_BLOCK);
+  destination.contracts = contracts;
+  result.chains[result.destinationChain] = destination;
+
+  return result;
+}
+
+// Check the merged config and collect every problem, so a bad deployment fails with one clear error
+function validateConfig(raw: any): DeploymentConfig {
+  const errors: string[] = [];
+
+  if (!isNetwork(raw.network)) {
+    errors.push(`network must be one of Mainnet, Testnet, Devnet (got ${raw.network})`);
+  }
+  for (const key of ["sourceChain", "destinationChain"]) {
+    if (!isChain(raw[key])) {
+      errors.push(`${key} is not a Wormhole chain: ${raw[key]}`);
+    }
+  }
+  if (isChain(raw.sourceChain) && raw.sourceChain === raw.destinationChain) {
+    errors.push("sourceChain and destinationChain must differ");
+  }
+
+  if (isChain(raw.destinationChain)) {
+    if (chainToPlatform(raw.destinationChain) !== "Evm") {
+      errors.push(`destinationChain must be an EVM chain (got ${raw.destinationChain})`);
+    }
+    const contracts = raw.chains[raw.destinationChain]?.contracts ?? {};
+    for (const key of ["stakingContract", "loanToken", "wrappedToken"]) {
+      if (!contracts[key]) {
+        errors.push(`chains.${raw.destinationChain}.contracts.${key} is required`);
+      } else if (!ethers.isAddress(contracts[key])) {
+        errors.push(`chains.${raw.destinationChain}.contracts.${key} is not a valid address: ${contracts[key]}`);
+      }
+    }
+    if (contracts.startBlock !== undefined && !(Number.isInteger(contracts.startBlock) && contracts.startBlock >= 0)) {
+      errors.push(`chains.${raw.destinationChain}.contracts.startBlock must be a non-negative integer`);
+    }
+
+    const pools = raw.chains[raw.destinationChain]?.pools ?? [];
+    if (!Array.isArray(pools)) {
+      errors.push(`chains.${raw.destinationChain}.pools must be an array`);
+    } else {
+      pools.forEach((pool: any, i: number) => {
+        const prefix = `chains.${raw.destinationChain}.pools[${i}]`;
+        if (!pool.sourceToken || pool.sourceToken === "native") {
+          errors.push(`${prefix}.sourceToken must be a token address, the native token is configured in contracts`);
+        }
+        for (const key of ["stakingContract", "loanToken"]) {
+          if (!ethers.isAddress(pool[key])) {
+            errors.push(`${prefix}.${key} is not a valid address: ${pool[key]}`);
+          }
+        }
+        if (pool.wrappedToken !== undefined && !ethers.isAddress(pool.wrappedToken)) {
+          errors.push(`${prefix}.wrappedToken is not a valid address: ${pool.wrappedToken}`);
+        }
+        if (pool.startBlock !== undefined && !(Number.isInteger(pool.startBlock) && pool.startBlock >= 0)) {
+          errors.push(`${prefix}.startBlock must be a non-negative integer`);
+        }
+      });
+    }
+  }
+
+  if (raw.prices !== undefined) {
+    if (typeof raw.prices !== "object" || raw.prices === null || Array.isArray(raw.prices)) {
+      errors.push("prices must map token addresses to price feeds");
+    } else {
+      for (const [token, feed] of Object.entries<any>(raw.prices)) {
+        if (!ethers.isAddress(token)) {
+          errors.push(`prices.${token} is not keyed by a valid token address`);
+        }
+        if ((feed?.usd === undefined) === (feed?.pythFeedId === undefined)) {
+          errors.push(`prices.${token} must set exactly one of usd and pythFeedId`);
+        } else if (feed.usd !== undefined && !(typeof feed.usd === "string" && /^\d+(\.\d{1,18})?$/.test(feed.usd))) {
+          errors.push(`prices.${token}.usd must be a decimal string with at most 18 decimals`);
+        } else if (feed.pythFeedId !== undefined && !(typeof feed.pythFeedId === "string" && /^(0x)?[0-9a-fA-F]{64}$/.test(feed.pythFeedId))) {
+          errors.push(`prices.${token}.pythFeedId must be a 32-byte hex feed id`);
+        }
+      }
+    }
+  }
+
+  for (const [chain, settings] of Object.entries<any>(raw.chains)) {
+    if (!isChain(chain)) {
+      errors.push(`chains.${chain} is not a Wormhole chain`);
+    } else if (settings?.rpc !== undefined && !/^(https?|wss?):\/\//.test(settings.rpc)) {
+      errors.push(`chains.${chain}.rpc must be an http(s) or ws(s) URL`);
+    }
+    if (settings?.rpcFallbacks !== undefined) {
+      if (!Array.isArray(settings.rpcFallbacks)) {
+        errors.push(`chains.${chain}.rpcFallbacks must be an array of URLs`);
+      } else {
+        settings.rpcFallbacks.forEach((url: any, i: number) => {
+          if (typeof url !== "string" || !/^https?:\/\//.test(url)) {
+            errors.push(`chains.${chain}.rpcFallbacks[${i}] must be an http(s) URL`);
+          }
+        });
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid deployment config (${CONFIG_FILE}):\n- ${errors.join("\n- ")}`);
+  }
+  return raw as DeploymentConfig;
+}
+
+// Load the deployment config once; every later call returns the same object
+export function getDeploymentConfig(): DeploymentConfig {
+  if (!deployment) {
+    if (!fs.existsSync(CONFIG_FILE)) {
+      throw new Error(`Deployment config not found: ${CONFIG_FILE}`);
+    }
+    const raw = JSON.parse(fs.readFileSync(CONFIG_FILE, "utf8"));
+    deployment = validateConfig(applyEnvOverrides(raw));
+  }
+  return deployment;
+}
+
+// Contract addresses on the destination chain
+export function getDestinationContracts(): ChainContracts {
+  const { chains, destinationChain } = getDeploymentConfig();
+  return chains[destinationChain]!.contracts!;
+}
+
+// Staking contracts configured for a source token ("native" or a mint/contract address)
+export function getStakingPoolConfig(sourceToken: string): StakingPoolConfig | undefined {
+  const { chains, destinationChain } = getDeploymentConfig();
+  if (sourceToken === "native") {
+    return { sourceToken, ...getDestinationContracts() };
+  }
+  // EVM addresses are case-insensitive, Solana mints are not
+  const pools = chains[destinationChain]!.pools ?? [];
+  return pools.find(pool => pool.sourceToken === sourceToken)
+    ?? pools.find(pool => ethers.isAddress(sourceToken) && pool.sourceToken.toLowerCase() === sourceToken.toLowerCase());
+}
+
+// Every configured staking pool, the native token's first
+export function listStakingPoolConfigs(): StakingPoolConfig[] {
+  const { chains, destinationChain } = getDeploymentConfig();
+  return [getStakingPoolConfig("native")!, ...(chains[destinationChain]!.pools ?? [])];
+}
+
+// Every RPC endpoint for a chain in failover order, the primary first
+export function getRpcUrls(chain: Chain): string[] {
+  const settings = getDeploymentConfig().chains[chain];
+  const urls = [settings?.rpc, ...(settings?.rpcFallbacks ?? [])].filter((url): url is string => !!url);
+  if (urls.length === 0) {
+    throw new Error(`No RPC endpoint configured for ${chain}, set chains.${chain}.rpc in the deployment config or NEXT_PUBLIC_ETH_RPC_URL`);
+  }
+  return urls;
+}
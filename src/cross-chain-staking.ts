@@ -1,217 +1,637 @@
-import {
-    Chain,
-    Network,
-    Wormhole,
-    amount,
-    wormhole,
-    TokenId,
-    TokenTransfer,
-  } from "@wormhole-foundation/sdk";
-  import evm from "@wormhole-foundation/sdk/evm";
-  import solana from "@wormhole-foundation/sdk/solana";
-  import sui from "@wormhole-foundation/sdk/sui";
-  import { SignerStuff, getSigner, getTokenDecimals } from "./helpers/helpers";
+import { amount, TokenTransfer } from "@wormhole-foundation/sdk";
   import { ethers } from "ethers";
   import { config } from "dotenv";
+  import { getDeploymentConfig, getStakingPoolConfig } from "./config";
+  import { getEvmProvider, getServerWallet, retryRead, sendTransaction } from "./evm";
+  import { ProgressDetails, emitProgress } from "./progress";
+  import { LedgerTransaction, recordLedgerEntry } from "./ledger";
+  import { BridgeTransfer, BridgeTransferRequest, getBridgeClient } from "./bridge";
+  import { attestationWaitSeconds, operationDurationSeconds, transfersTotal } from "./metrics";
+  import {
+    AmountTooLowError,
+    AppError,
+    AttestationTimeoutError,
+    ContractRevertedError,
+    InsufficientBalanceError,
+    InsufficientLoanTokensError,
+    NotConfiguredError,
+    NotFoundError,
+    OperationTimeoutError,
+    ValidationError,
+    toAppError,
+  } from "./errors";
   
   // Load environment variables
   config();
   
-  // Contract addresses
-  const STAKING_CONTRACT_ADDRESS = "0xfb06c3cd43d8b15c580a196e12ba80d42ffc02cd";
-  const LOAN_TOKEN_ADDRESS = "0x8c25f65249f568033697a5d06f907f4dafafdeb5";
-  const WRAPPED_SOL_ADDRESS = "0x824CB8fC742F8D3300d29f16cA8beE94471169f5";
+  // Chain pair, loaded once from the deployment config
+  const { sourceChain: SOURCE_CHAIN, destinationChain: DESTINATION_CHAIN } = getDeploymentConfig();
   
+
   // Contract ABIs
-  const ERC20_ABI = [
+  export const ERC20_ABI = [
     "function approve(address spender, uint256 amount) external returns (bool)",
     "function balanceOf(address account) external view returns (uint256)",
+    "function allowance(address owner, address spender) external view returns (uint256)",
     "function decimals() external view returns (uint8)",
   ];
   
-  const STAKING_ABI = [
+  export const STAKING_ABI = [
     "function stake(uint256 amount) external",
     "function unstake(uint256 amount) external",
     "function getUserStake(address user) external view returns (uint256 stakedAmount, uint256 loanedAmount)",
+    "function stakingToken() external view returns (address)",
+    "function loanToken() external view returns (address)",
+    "function loanRatio() external view returns (uint256)",
   ];
   
-  // Main function - only executed when running the script directly
-  if (require.main === module) {
-    (async function () {
-      console.log("Starting cross-chain staking process...");
-      
-      try {
-        // 1. Execute cross-chain transfer
-        const crossChainResult = await executeCrossChainTransfer();
-        console.log("Cross-chain transfer completed, waiting for assets to reach the destination chain...");
-        
-        // Wait for a while to ensure the assets have arrived
-        console.log("Waiting 30 seconds to ensure assets have arrived...");
-        await new Promise(resolve => setTimeout(resolve, 30000));
-        
-        // 2. Execute staking operation
-        await executeStaking(crossChainResult.destinationAddress);
-        
-        console.log("The entire cross-chain staking process has been completed!");
-      } catch (error) {
-        console.error("Error during execution:", error);
-      }
-      
-      process.exit(0);
-    })();
+  export const LOAN_TOKEN_ABI = [
+    ...ERC20_ABI,
+    "function minters(address minter) external view returns (bool)",
+  ];
+  
+  // Phases of a Wormhole token transfer, in either direction
+  export type TransferPhase = "initiated" | "attested" | "redeemed";
+  
+  // Phases of the cross-chain staking pipeline, reported in order as each step completes
+  export type StakePhase = TransferPhase | "approved" | "staked";
+  
+  // Phases of the exit flow: unstake, then bridge the wrapped SOL back to Solana
+  export type ExitPhase = "unstaked" | TransferPhase;
+  
+  // What a phase reports besides its transactions, e.g. the amount unstaked
+  export type PhaseDetails = Omit<ProgressDetails, "type" | "phase" | "txHashes">;
+  
+  // Called after each completed phase with the transaction hashes (or VAA ids) it produced
+  export type PhaseCallback<P extends string = StakePhase> = (phase: P, txids: string[], details: PhaseDetails) => void | Promise<void>;
+  
+  // How much wrapped SOL to stake: an explicit amount, or the whole balance when stakeAll is set
+  export interface StakeOptions {
+    amount?: string;
+    stakeAll?: boolean;
+    // Source token whose wrapped counterpart is staked, defaults to "native"
+    token?: string;
+  }
+  
+  // How to bridge: which source token, and whether a relayer redeems on the destination
+  export interface TransferOptions {
+    // Source token, "native" or a mint/contract address; defaults to "native"
+    token?: string;
+    // Let the Wormhole relayer redeem on the destination in exchange for a fee
+    automatic?: boolean;
+    // Automatic mode only: amount of the source token to swap for destination gas
+    nativeGas?: string;
   }
   
+  // Destination contracts that stake the wrapped counterpart of one source token
+  export interface StakingPool {
+    sourceToken: string;
+    wrappedToken: string;
+    stakingContract: string;
+    loanToken: string;
+  }
+  
+  
   // Execute cross-chain transfer
-  export async function executeCrossChainTransfer(amt: string = "0.01") {
+  export async function executeCrossChainTransfer(
+    amt: string = "0.01",
+    onPhase?: PhaseCallback,
+    options: TransferOptions = {}
+  ) {
     console.log("Starting cross-chain transfer...");
     
-    const wh = await wormhole("Testnet", [evm, solana, sui]);
+    const sourceToken = options.token ?? "native";
     
-    // Set up source and destination chains
-    const sendChain = wh.getChain("Solana");
-    const rcvChain = wh.getChain("Sepolia");
+    // Fails before anything is sent when the token has no staking contract or attestation
+    const pool = await resolveStakingPool(sourceToken);
     
-    // Get signers
-    const source = await getSigner(sendChain);
-    console.log("Sender: " + source.address.address.address.toString());
-    const destination = await getSigner(rcvChain);
-    console.log("Receiver: " + destination.address.address.address.toString());
+    const bridge = getBridgeClient();
+    const sourceAddress = await bridge.getAddress(SOURCE_CHAIN);
+    console.log("Sender: " + sourceAddress);
+    const destinationAddress = await bridge.getAddress(DESTINATION_CHAIN);
+    console.log("Receiver: " + destinationAddress);
     
-    // Get cross-chain token
-    const token = Wormhole.tokenId(sendChain.chain, "native");
-    console.log("Getting cross-chain token: " + token.address);
+    // Manual completion unless the relayer was requested
+    const automatic = options.automatic ?? false;
     
-    // Set manual completion mode
-    const automatic = false;
+    // Record the destination balance so arrival can be detected as an increase
+    const balanceBefore = await getWrappedBalance(pool.wrappedToken, destinationAddress);
     
-    // Get token decimals
-    const decimals = await getTokenDecimals(wh, token, sendChain);
     let  srcTxids = [''];
+    let  destTxids: string[] = [];
+    let  destinationAmount: string | undefined;
+    
+    // Collect the hashes as phases complete, so a failed transfer is still recorded with what was sent
+    const transactions: LedgerTransaction[] = [];
+    const recordPhase: PhaseCallback = async (phase, txids, details) => {
+      if (phase === "initiated") {
+        txids.forEach(hash => transactions.push({ chain: SOURCE_CHAIN, hash, label: "initiate" }));
+      } else if (phase === "redeemed") {
+        txids.forEach(hash => transactions.push({ chain: DESTINATION_CHAIN, hash, label: "redeem" }));
+      }
+      await onPhase?.(phase, txids, details);
+    };
+    let transferError: AppError | undefined;
+    
     try{
         // Execute token transfer
-        srcTxids  = await tokenTransfer(wh, {
-            token,
-            amount: amount.units(amount.parse(amt, decimals)),
-            source,
-            destination,
+        const result = await tokenTransfer({
+            fromChain: SOURCE_CHAIN,
+            toChain: DESTINATION_CHAIN,
+            token: sourceToken,
+            amount: amt,
             automatic,
-         });
+            nativeGas: automatic ? options.nativeGas : undefined,
+         }, recordPhase);
+        ({ srcTxids, destTxids } = result);
+        destinationAmount = result.transfer.destinationAmount;
     }catch(e){
-      console.log(e);
+      transferError = toAppError(e);
     }
     
+    transfersTotal.inc({ from_chain: SOURCE_CHAIN, to_chain: DESTINATION_CHAIN, status: transferError ? "failed" : "completed" });
+    recordLedgerEntry({
+      type: "transfer",
+      status: transferError ? "failed" : "completed",
+      fromChain: SOURCE_CHAIN,
+      toChain: DESTINATION_CHAIN,
+      amount: amt,
+      token: sourceToken,
+      address: sourceAddress,
+      transactions,
+      error: transferError?.message,
+    });
+    
+    // Failed before sending, or sent and not redeemed: an "initiated" phase has been reported then
+    if (transferError) {
+      throw transferError;
+    }
     
     return {
-      sourceAddress: source.address.address.address.toString(),
-      destinationAddress: destination.address.address.address.toString(),
+      sourceAddress,
+      destinationAddress,
       amount: amt,
+      sourceToken,
+      automatic,
+      // What the destination receives after relayer fees and gas drop-off, when known
+      destinationAmount,
       wormholeHash: srcTxids[0],
+      redeemHashes: destTxids,
+      balanceBefore,
+    };
+  }
+  
+  // VAA wait when completing a transfer that was already initiated, by recovery or a resumed job.
+  // Its first wait timed out, so this one is longer.
+  export const RECOVERY_ATTESTATION_TIMEOUT = 600_000;
+  
+  // Complete an already initiated transfer from its Solana source transaction hash,
+  // waiting up to attestationTimeout ms for the VAA to be signed
+  export async function completeCrossChainTransfer(
+    txid: string,
+    onPhase?: PhaseCallback,
+    attestationTimeout: number = RECOVERY_ATTESTATION_TIMEOUT
+  ) {
+    console.log(`Resuming cross-chain transfer from source transaction ${txid}...`);
+    
+    const bridge = getBridgeClient();
+    const destinationAddress = await bridge.getAddress(DESTINATION_CHAIN);
+    console.log("Receiver: " + destinationAddress);
+    
+    // Rebuild the transfer from the source chain transaction
+    const transfer = await bridge.recoverTransfer(SOURCE_CHAIN, txid, 60_000);
+    console.log(`Recovered transfer of ${transfer.amount} to ${transfer.to}`);
+    
+    // Native SOL comes back as the wrapped SOL mint, pools are configured for it as "native"
+    const nativeWrapped = await bridge.getNativeWrappedToken(SOURCE_CHAIN);
+    const sourceToken = transfer.token === nativeWrapped ? "native" : transfer.token;
+    const pool = await resolveStakingPool(sourceToken);
+    const balanceBefore = await getWrappedBalance(pool.wrappedToken, destinationAddress);
+    
+    const destTxids = await redeemTransfer(transfer, onPhase, attestationTimeout);
+    
+    // The initiating run recorded the transfer as failed when its VAA wait timed out; record
+    // the redemption, unless someone else redeemed it
+    if (destTxids.length > 0) {
+      recordLedgerEntry({
+        type: "transfer",
+        status: "completed",
+        fromChain: SOURCE_CHAIN,
+        toChain: DESTINATION_CHAIN,
+        amount: transfer.amount,
+        token: sourceToken,
+        address: await bridge.getAddress(SOURCE_CHAIN),
+        transactions: [
+          ...transfer.txids.map(hash => ({ chain: SOURCE_CHAIN, hash, label: "initiate" })),
+          ...destTxids.map(hash => ({ chain: DESTINATION_CHAIN, hash, label: "redeem" })),
+        ],
+      });
+    }
+    
+    return {
+      destinationAddress,
+      amount: transfer.amount,
+      sourceToken,
+      automatic: transfer.automatic,
+      destinationAmount: transfer.destinationAmount,
+      wormholeHash: txid,
+      redeemHashes: destTxids,
+      // When the transfer had already been redeemed the baseline includes it, so it can't be used
+      balanceBefore: destTxids.length > 0 ? balanceBefore : undefined,
+    };
+  }
+  
+  // Send wrapped SOL from Sepolia back to the Solana signer
+  export async function executeExitTransfer(
+    amt: string,
+    onPhase?: PhaseCallback<ExitPhase>,
+    attestationTimeout: number = Number(process.env.EXIT_ATTESTATION_TIMEOUT_MS || 1_800_000),
+    sourceToken: string = "native"
+  ) {
+    console.log("Starting cross-chain transfer back to Solana...");
+    
+    const pool = await resolveStakingPool(sourceToken);
+    const bridge = getBridgeClient();
+    
+    // Reverse direction: wrapped SOL goes home to Solana
+    const sourceAddress = await bridge.getAddress(DESTINATION_CHAIN);
+    console.log("Sender: " + sourceAddress);
+    const destinationAddress = await bridge.getAddress(SOURCE_CHAIN);
+    console.log("Receiver: " + destinationAddress);
+    
+    let srcTxids: string[] = [];
+    let destTxids: string[] = [];
+    // Hashes as they are sent, so a failed transfer is still recorded with what was sent
+    const transactions: LedgerTransaction[] = [];
+    let transferError: AppError | undefined;
+    try {
+      const transfer = await bridge.initiateTransfer({
+        fromChain: DESTINATION_CHAIN,
+        toChain: SOURCE_CHAIN,
+        token: pool.wrappedToken,
+        amount: amt,
+        automatic: false,
+      });
+      srcTxids = transfer.txids;
+      srcTxids.forEach(hash => transactions.push({ chain: DESTINATION_CHAIN, hash, label: "initiate" }));
+      console.log(`Wormhole Hash: ${srcTxids[srcTxids.length - 1]}`);
+      await reportPhase(onPhase, "initiated", srcTxids, { chain: DESTINATION_CHAIN, amount: amt });
+      
+      // Ethereum finality takes much longer than Solana's, so the VAA wait defaults to 30 minutes
+      destTxids = await redeemTransfer(transfer, onPhase, attestationTimeout);
+      destTxids.forEach(hash => transactions.push({ chain: SOURCE_CHAIN, hash, label: "redeem" }));
+    } catch (error) {
+      transferError = toAppError(error);
+    }
+    
+    transfersTotal.inc({ from_chain: DESTINATION_CHAIN, to_chain: SOURCE_CHAIN, status: transferError ? "failed" : "completed" });
+    recordLedgerEntry({
+      type: "transfer",
+      status: transferError ? "failed" : "completed",
+      fromChain: DESTINATION_CHAIN,
+      toChain: SOURCE_CHAIN,
+      amount: amt,
+      token: sourceToken,
+      address: sourceAddress,
+      transactions,
+      error: transferError?.message,
+    });
+    
+    if (transferError) {
+      throw transferError;
+    }
+    
+    return {
+      sourceAddress,
+      destinationAddress,
+      amount: amt,
+      wormholeHash: srcTxids[srcTxids.length - 1],
+      redeemHashes: destTxids,
+    };
+  }
+  
+  // Complete an exit transfer from its Sepolia source transaction hash
+  export async function completeExitTransfer(
+    txid: string,
+    onPhase?: PhaseCallback<ExitPhase>,
+    attestationTimeout: number = Number(process.env.EXIT_ATTESTATION_TIMEOUT_MS || 1_800_000)
+  ) {
+    console.log(`Resuming transfer back to Solana from source transaction ${txid}...`);
+    
+    const bridge = getBridgeClient();
+    const destinationAddress = await bridge.getAddress(SOURCE_CHAIN);
+    console.log("Receiver: " + destinationAddress);
+    
+    const transfer = await bridge.recoverTransfer(DESTINATION_CHAIN, txid, 60_000);
+    const destTxids = await redeemTransfer(transfer, onPhase, attestationTimeout);
+    
+    return {
+      destinationAddress,
+      wormholeHash: txid,
+      redeemHashes: destTxids,
+    };
+  }
+  
+  // Unstake and bridge the withdrawn wrapped SOL back to Solana in one flow
+  export async function executeExit(amt?: string, onPhase?: PhaseCallback<ExitPhase>, sourceToken: string = "native") {
+    console.log("Starting exit to Solana...");
+    
+    const unstakeResult = await executeUnstake(amt, onPhase, sourceToken);
+    if (!unstakeResult) {
+      throw new NotFoundError("No stakes to unstake");
+    }
+    
+    const transferResult = await executeExitTransfer(unstakeResult.withdrawnAmount, onPhase, undefined, sourceToken);
+    console.log("Exit to Solana completed");
+    
+    return {
+      ...transferResult,
+      burnedAmount: unstakeResult.burnedAmount,
     };
   }
   
-  // Add retry logic example
-  async function executeWithRetry<T>(fn: () => Promise<T>, maxRetries = 5, delay = 3000): Promise<T> {
-    let lastError: unknown;
-    for (let i = 0; i < maxRetries; i++) {
+  // Quote a transfer without sending anything: amount received on the destination, relayer fee
+  // and native gas drop-off for automatic transfers
+  export async function quoteCrossChainTransfer(amt: string, options: TransferOptions = {}) {
+    const sourceToken = options.token ?? "native";
+    await resolveStakingPool(sourceToken);
+    
+    const automatic = options.automatic ?? false;
+    const nativeGas = automatic && options.nativeGas ? options.nativeGas : undefined;
+    
+    const quote = await getBridgeClient().quoteTransfer({
+      fromChain: SOURCE_CHAIN,
+      toChain: DESTINATION_CHAIN,
+      token: sourceToken,
+      amount: amt,
+      automatic,
+      nativeGas,
+    });
+    
+    return {
+      sourceToken,
+      automatic,
+      sourceAmount: quote.sourceAmount,
+      destinationAmount: quote.destinationAmount,
+      relayerFee: quote.relayerFee,
+      nativeGasRequested: nativeGas ?? "0",
+      // Destination chain native token (ETH) received from the gas drop-off
+      destinationNativeGas: quote.destinationNativeGas,
+      // Estimated seconds until the VAA is available
+      eta: quote.eta,
+      warnings: quote.warnings,
+    };
+  }
+  
+  // Wrapped token balance of an address, in base units
+  async function getWrappedBalance(wrappedToken: string, address: string): Promise<bigint> {
+    const wrappedContract = new ethers.Contract(wrappedToken, ERC20_ABI, getEvmProvider());
+    return retryRead(() => wrappedContract.balanceOf(address));
+  }
+  
+  // Resolved pools by source token, the token bridge lookup only needs to happen once
+  const stakingPools = new Map<string, StakingPool>();
+  
+  // Find the staking contract configured for a source token and its wrapped counterpart on the destination
+  export async function resolveStakingPool(sourceToken: string = "native"): Promise<StakingPool> {
+    const cached = stakingPools.get(sourceToken);
+    if (cached) {
+      return cached;
+    }
+    
+    const poolConfig = getStakingPoolConfig(sourceToken);
+    if (!poolConfig) {
+      throw new NotFoundError(`No staking contract is configured on ${DESTINATION_CHAIN} for token ${sourceToken}`);
+    }
+    
+    let wrappedToken = poolConfig.wrappedToken;
+    if (sourceToken !== "native") {
+      // Only tokens attested on the destination have a wrapped counterpart there
+      let resolved: string;
       try {
-        return await fn();
-      } catch (error: unknown) {
-        console.log(`Attempt ${i+1}/${maxRetries} failed: ${error instanceof Error ? error.message : String(error)}`);
-        lastError = error;
-        if (i < maxRetries - 1) {
-          console.log(`Waiting ${delay/1000} seconds before retrying...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          // Increase retry delay to avoid frequent requests
-          delay = Math.min(delay * 1.5, 15000);
-        }
+        resolved = await getBridgeClient().lookupWrappedToken(SOURCE_CHAIN, DESTINATION_CHAIN, sourceToken);
+      } catch (error: any) {
+        throw new NotConfiguredError(`Token ${sourceToken} has no attestation on ${DESTINATION_CHAIN}, attest it through the token bridge first (${error?.message ?? error})`);
+      }
+      
+      if (wrappedToken && wrappedToken.toLowerCase() !== resolved.toLowerCase()) {
+        throw new NotConfiguredError(`Configured wrapped token ${wrappedToken} for ${sourceToken} does not match the token bridge (${resolved})`);
+      }
+      wrappedToken = resolved;
+    }
+    
+    const pool = { ...poolConfig, wrappedToken: wrappedToken! };
+    stakingPools.set(sourceToken, pool);
+    return pool;
+  }
+  
+  // Check that the staking contract uses the configured tokens and may mint loan tokens.
+  // Fixing either is an owner action, done through the admin API rather than the user's stake.
+  export async function verifyStakingPool(pool: StakingPool) {
+    const provider = getEvmProvider();
+    const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, provider);
+    const loanTokenContract = new ethers.Contract(pool.loanToken, LOAN_TOKEN_ABI, provider);
+    
+    const [stakingToken, loanToken, isMinter] = await retryRead(() => Promise.all([
+      stakingContract.stakingToken() as Promise<string>,
+      stakingContract.loanToken() as Promise<string>,
+      loanTokenContract.minters(pool.stakingContract) as Promise<boolean>,
+    ]));
+    
+    if (stakingToken.toLowerCase() !== pool.wrappedToken.toLowerCase()) {
+      throw new NotConfiguredError(`Staking contract ${pool.stakingContract} stakes ${stakingToken}, not the configured wrapped token ${pool.wrappedToken}`);
+    }
+    if (loanToken.toLowerCase() !== pool.loanToken.toLowerCase()) {
+      throw new NotConfiguredError(`Staking contract ${pool.stakingContract} mints ${loanToken}, not the configured loan token ${pool.loanToken}`);
+    }
+    if (!isMinter) {
+      throw new NotConfiguredError(`Staking contract ${pool.stakingContract} is not a minter of loan token ${pool.loanToken}, the contract owner has to add it first (POST /api/admin/minters)`);
+    }
+  }
+  
+  // Convert a source token amount to destination token base units.
+  // The token bridge truncates amounts to at most 8 decimals before minting the wrapped token.
+  function normalizeBridgedAmount(units: bigint, sourceDecimals: number, destinationDecimals: number): bigint {
+    const bridgedDecimals = Math.min(sourceDecimals, TokenTransfer.MAX_DECIMALS);
+    const bridged = units / 10n ** BigInt(sourceDecimals - bridgedDecimals);
+    return destinationDecimals >= bridgedDecimals
+      ? bridged * 10n ** BigInt(destinationDecimals - bridgedDecimals)
+      : bridged / 10n ** BigInt(bridgedDecimals - destinationDecimals);
+  }
+  
+  // Wait until the redemption is confirmed on Sepolia and the wrapped SOL balance of the
+  // destination has grown by the transferred amount (or, without a baseline, holds at least that amount)
+  export async function waitForArrival(
+    destinationAddress: string,
+    amt: string,
+    options: {
+      redeemTxids?: string[];
+      balanceBefore?: bigint;
+      timeout?: number;
+      pollInterval?: number;
+      token?: string;
+      // Exact amount expected on the destination (e.g. after relayer fees), in wrapped token units
+      destinationAmount?: string;
+    } = {}
+  ) {
+    const sourceToken = options.token ?? "native";
+    const pool = await resolveStakingPool(sourceToken);
+    const timeout = options.timeout ?? Number(process.env.ARRIVAL_TIMEOUT_MS || 600_000);
+    const pollInterval = options.pollInterval ?? 5000;
+    const deadline = Date.now() + timeout;
+    
+    const provider = getEvmProvider();
+    
+    // Confirm the redemption transactions landed and succeeded
+    for (const txid of options.redeemTxids ?? []) {
+      console.log(`Waiting for redemption transaction ${txid} to be confirmed...`);
+      const receipt = await provider.waitForTransaction(txid, 1, Math.max(deadline - Date.now(), 1));
+      if (!receipt) {
+        throw new OperationTimeoutError(`Timed out after ${timeout / 1000}s waiting for redemption transaction ${txid} to be confirmed`);
+      }
+      if (receipt.status !== 1) {
+        throw new ContractRevertedError(`redemption transaction ${txid} in block ${receipt.blockNumber}`);
+      }
+      console.log(`Redemption transaction confirmed in block ${receipt.blockNumber}`);
+    }
+    
+    // Work out the expected increase in wrapped SOL base units
+    const wrappedSolContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, provider);
+    const decimals = Number(await retryRead(() => wrappedSolContract.decimals()));
+    let expected: bigint;
+    if (options.destinationAmount !== undefined) {
+      expected = ethers.parseUnits(options.destinationAmount, decimals);
+    } else {
+      const sourceDecimals = await getBridgeClient().getDecimals(SOURCE_CHAIN, sourceToken);
+      expected = normalizeBridgedAmount(amount.units(amount.parse(amt, sourceDecimals)), sourceDecimals, decimals);
+    }
+    const target = (options.balanceBefore ?? 0n) + expected;
+    
+    console.log(`Waiting for Wrapped SOL balance of ${destinationAddress} to reach ${ethers.formatUnits(target, decimals)} SOL...`);
+    let balance = 0n;
+    while (true) {
+      balance = await retryRead(() => wrappedSolContract.balanceOf(destinationAddress));
+      if (balance >= target) {
+        break;
       }
+      if (Date.now() >= deadline) {
+        throw new OperationTimeoutError(
+          `Timed out after ${timeout / 1000}s waiting for ${amt} Wrapped SOL to arrive at ${destinationAddress}: ` +
+          `expected balance ${ethers.formatUnits(target, decimals)} SOL, current balance ${ethers.formatUnits(balance, decimals)} SOL`
+        );
+      }
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
     }
-    throw lastError;
+    
+    console.log(`Wrapped SOL arrived, balance: ${ethers.formatUnits(balance, decimals)} SOL`);
+    return {
+      balance: ethers.formatUnits(balance, decimals),
+      received: ethers.formatUnits(expected, decimals),
+    };
   }
   
   // Execute staking operation
-  export async function executeStaking(userAddress: string) {
+  export async function executeStaking(userAddress: string, options: StakeOptions, onPhase?: PhaseCallback) {
     console.log("Starting staking operation...");
     
-    // Get Ethereum private key
-    const privateKey = process.env.ETH_PRIVATE_KEY;
-    if (!privateKey) {
-      throw new Error("Missing ETH_PRIVATE_KEY environment variable");
+    if (!!options.stakeAll === (options.amount !== undefined)) {
+      throw new ValidationError("Specify either an amount to stake or the stakeAll option");
     }
     
+    const pool = await resolveStakingPool(options.token);
+    const wallet = getServerWallet();
+    
+    // Sent transactions and the amount, for the ledger
+    const transactions: LedgerTransaction[] = [];
+    let stakedAmountText: string | undefined;
+    // "completed" once the stake is recorded as such, a later failure doesn't record it as failed.
+    // null when there is nothing to stake, which isn't timed.
+    let outcome: "completed" | "failed" | null = "failed";
+    const stopTimer = operationDurationSeconds.startTimer({ operation: "stake" });
+    
     try {
-      // Connect to Sepolia network with request options
-      const provider = new ethers.JsonRpcProvider(
-        process.env.NEXT_PUBLIC_ETH_RPC_URL,
-        undefined,
-        { 
-          staticNetwork: true,
-          polling: true,
-          pollingInterval: 4000,
-          cacheTimeout: 30000
-        }
-      );
-      
-      const wallet = new ethers.Wallet(privateKey, provider);
-      
-      // Connect to loan token contract
-      const loanTokenAbi = [
-        "function addMinter(address minter) external",
-        "function minters(address minter) external view returns (bool)"
-      ];
-      const loanTokenContract = new ethers.Contract(LOAN_TOKEN_ADDRESS, loanTokenAbi, wallet);
-
-      // Check if the staking contract is already a minter
-      const isMinter = await executeWithRetry(() => 
-        loanTokenContract.minters(STAKING_CONTRACT_ADDRESS)
-      );
-      
-      if (!isMinter) {
-        console.log("Staking contract is not a minter, adding minting permission...");
-        const addMinterTx = await executeWithRetry(() => 
-          loanTokenContract.addMinter(STAKING_CONTRACT_ADDRESS)
-        );
-        console.log(`Add minter transaction submitted, transaction hash: ${addMinterTx.hash}`);
-        await executeWithRetry(() => addMinterTx.wait());
-        console.log("Add minter transaction confirmed");
-      } else {
-        console.log("Staking contract is already a minter");
-      }
+      // Minting loan tokens needs the owner to have set up the contracts, see src/admin.ts
+      await verifyStakingPool(pool);
       
       // Connect to contracts
-      const wrappedSolContract = new ethers.Contract(WRAPPED_SOL_ADDRESS, ERC20_ABI, wallet);
-      const stakingContract = new ethers.Contract(STAKING_CONTRACT_ADDRESS, STAKING_ABI, wallet);
+      const wrappedSolContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, wallet);
+      const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, wallet);
       
       // Check Wrapped SOL balance
-      const balance = await executeWithRetry(() => 
+      const balance = await retryRead(() => 
         wrappedSolContract.balanceOf(userAddress)
       );
-      const decimals = await executeWithRetry(() => 
+      const decimals = await retryRead(() => 
         wrappedSolContract.decimals()
       );
       console.log(`Wrapped SOL balance: ${ethers.formatUnits(balance, decimals)} SOL`);
       
-      if (balance > 0n) {
-        // Approve staking contract to use Wrapped SOL
-        console.log("Approving staking contract to use Wrapped SOL...");
-        const approveTx = await executeWithRetry(() => 
-          wrappedSolContract.approve(STAKING_CONTRACT_ADDRESS, balance)
+      // Resolve and validate the amount to stake against the balance
+      let stakeAmount: bigint = balance;
+      if (options.amount !== undefined) {
+        try {
+          stakeAmount = ethers.parseUnits(options.amount, decimals);
+        } catch {
+          throw new ValidationError(`Invalid stake amount: ${options.amount} (Wrapped SOL has ${decimals} decimals)`);
+        }
+        if (stakeAmount <= 0n) {
+          throw new ValidationError("Stake amount must be positive");
+        }
+        if (stakeAmount > balance) {
+          throw new InsufficientBalanceError(`Insufficient Wrapped SOL balance, requested ${options.amount} SOL but only have ${ethers.formatUnits(balance, decimals)} SOL`);
+        }
+      }
+      
+      if (stakeAmount > 0n) {
+        stakedAmountText = ethers.formatUnits(stakeAmount, decimals);
+        console.log(`Staking ${stakedAmountText} SOL`);
+        
+        // Skip the approval when a previous (possibly interrupted) run already granted it
+        const allowance = await retryRead(() => 
+          wrappedSolContract.allowance(wallet.address, pool.stakingContract)
         );
-        console.log(`Approval transaction submitted, transaction hash: ${approveTx.hash}`);
-        await executeWithRetry(() => approveTx.wait());
-        console.log("Approval transaction confirmed");
+        
+        if (allowance < stakeAmount) {
+          // Approve staking contract to use Wrapped SOL
+          console.log("Approving staking contract to use Wrapped SOL...");
+          const approveTx = await sendTransaction(wallet,
+            await wrappedSolContract.approve.populateTransaction(pool.stakingContract, stakeAmount)
+          );
+          console.log(`Approval transaction submitted, transaction hash: ${approveTx.hash}`);
+          await retryRead(() => approveTx.wait());
+          console.log("Approval transaction confirmed");
+          transactions.push({ chain: DESTINATION_CHAIN, hash: approveTx.hash, label: "approve" });
+          await reportPhase(onPhase, "approved", [approveTx.hash], { chain: DESTINATION_CHAIN });
+        } else {
+          console.log("Staking contract is already approved to use Wrapped SOL");
+          await reportPhase(onPhase, "approved", [], { chain: DESTINATION_CHAIN });
+        }
         
         // Execute staking
         console.log("Executing staking operation...");
-        const stakeTx = await executeWithRetry(() => 
-          stakingContract.stake(balance)
+        const stakeTx = await sendTransaction(wallet,
+          await stakingContract.stake.populateTransaction(stakeAmount)
         );
         console.log(`Staking transaction submitted, transaction hash: ${stakeTx.hash}`);
-        await executeWithRetry(() => stakeTx.wait());
+        await retryRead(() => stakeTx.wait());
         console.log("Staking transaction confirmed");
+        transactions.push({ chain: DESTINATION_CHAIN, hash: stakeTx.hash, label: "stake" });
+        recordLedgerEntry({
+          type: "stake",
+          status: "completed",
+          amount: stakedAmountText,
+          token: pool.sourceToken,
+          address: userAddress,
+          transactions,
+        });
+        outcome = "completed";
+        await reportPhase(onPhase, "staked", [stakeTx.hash], {
+          chain: DESTINATION_CHAIN,
+          amount: ethers.formatUnits(stakeAmount, decimals),
+        });
         
         // Query staking status
-        const [stakedAmount, loanedAmount] = await executeWithRetry(() => 
+        const [stakedAmount, loanedAmount] = await retryRead(() => 
           stakingContract.getUserStake(userAddress)
         );
         console.log(`Staking status:`);
@@ -224,53 +644,58 @@ import {
         };
       } else {
         console.log("No Wrapped SOL to stake, please ensure cross-chain transfer was successful");
+        outcome = null;
         return null;
       }
-    } catch (error) {
+    } catch (error: any) {
       console.error("Staking operation failed:", error);
+      if (outcome !== "completed") {
+        recordLedgerEntry({
+          type: "stake",
+          status: "failed",
+          amount: stakedAmountText ?? options.amount,
+          token: pool.sourceToken,
+          address: userAddress,
+          transactions,
+          error: error?.message || String(error),
+        });
+      }
       throw error;
+    } finally {
+      if (outcome) {
+        stopTimer({ status: outcome });
+      }
     }
   }
   
-  // Query staking status
-  export async function getStakeInfo() {
+  // Address of the server's own EVM wallet, used when no user address is given
+  export function getServerEvmAddress(): string {
+    return getServerWallet().address;
+  }
+  
+  // Query staking status of an address, the server wallet by default
+  export async function getStakeInfo(sourceToken: string = "native", address?: string) {
     console.log("Starting to query staking status...");
     
-    // Get Ethereum private key
-    const privateKey = process.env.ETH_PRIVATE_KEY;
-    if (!privateKey) {
-      throw new Error("Missing ETH_PRIVATE_KEY environment variable");
-    }
+    const pool = await resolveStakingPool(sourceToken);
+    const userAddress = address ?? getServerEvmAddress();
     
     try {
-      // Connect to Sepolia network
-      const provider = new ethers.JsonRpcProvider(
-        process.env.NEXT_PUBLIC_ETH_RPC_URL,
-        undefined,
-        { 
-          staticNetwork: true,
-          polling: true,
-          pollingInterval: 4000,
-          cacheTimeout: 30000
-        }
-      );
-      
-      const wallet = new ethers.Wallet(privateKey, provider);
-      const userAddress = wallet.address;
+      const provider = getEvmProvider();
       
       console.log(`Querying staking status for user ${userAddress}...`);
       
       // Connect to contracts
-      const stakingContract = new ethers.Contract(STAKING_CONTRACT_ADDRESS, STAKING_ABI, wallet);
-      const wrappedSolContract = new ethers.Contract(WRAPPED_SOL_ADDRESS, ERC20_ABI, wallet);
+      const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, provider);
+      const wrappedSolContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, provider);
       
       // Query staking status
-      const [stakedAmount, loanedAmount] = await executeWithRetry(() => 
+      const [stakedAmount, loanedAmount] = await retryRead(() => 
         stakingContract.getUserStake(userAddress)
       );
       
       // Get token decimals
-      const decimals = await executeWithRetry(() => 
+      const decimals = await retryRead(() => 
         wrappedSolContract.decimals()
       );
       
@@ -288,43 +713,97 @@ import {
     }
   }
   
-  // Unstake
-  export async function executeUnstake() {
-    console.log("Starting unstaking operation...");
-    
-    // Get Ethereum private key
-    const privateKey = process.env.ETH_PRIVATE_KEY;
-    if (!privateKey) {
-      throw new Error("Missing ETH_PRIVATE_KEY environment variable");
+  // Resolve the amount to unstake, defaulting to the whole position
+  export function resolveUnstakeAmount(amt: string | undefined, stakedAmount: bigint, decimals: number): bigint {
+    if (amt === undefined) {
+      return stakedAmount;
     }
     
+    let unstakeAmount: bigint;
     try {
-      // Connect to Sepolia network
-      const provider = new ethers.JsonRpcProvider(
-        process.env.NEXT_PUBLIC_ETH_RPC_URL,
-        undefined,
-        { 
-          staticNetwork: true,
-          polling: true,
-          pollingInterval: 4000,
-          cacheTimeout: 30000
-        }
-      );
-      
-      const wallet = new ethers.Wallet(privateKey, provider);
-      const userAddress = wallet.address;
-      
+      unstakeAmount = ethers.parseUnits(amt, decimals);
+    } catch {
+      throw new ValidationError(`Invalid unstake amount: ${amt} (Wrapped SOL has ${decimals} decimals)`);
+    }
+    if (unstakeAmount <= 0n) {
+      throw new ValidationError("Unstake amount must be positive");
+    }
+    if (unstakeAmount > stakedAmount) {
+      throw new InsufficientBalanceError(`Insufficient staked amount, requested ${amt} SOL but only ${ethers.formatUnits(stakedAmount, decimals)} SOL is staked`);
+    }
+    return unstakeAmount;
+  }
+  
+  // Loan tokens burned when unstaking, using the same integer formula as CrossChainStaking.unstake
+  export function calculateBurnAmount(unstakeAmount: bigint, stakedAmount: bigint, loanedAmount: bigint): bigint {
+    const burnAmount = (unstakeAmount * loanedAmount) / stakedAmount;
+    if (burnAmount <= 0n) {
+      throw new AmountTooLowError("Burn amount too small, please unstake a larger amount");
+    }
+    return burnAmount;
+  }
+  
+  // Preview the loan tokens that unstaking the given amount (or everything) would burn for an address
+  export async function previewUnstake(amt?: string, sourceToken: string = "native", address?: string) {
+    const pool = await resolveStakingPool(sourceToken);
+    
+    const provider = getEvmProvider();
+    const userAddress = address ?? getServerEvmAddress();
+    
+    const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, provider);
+    const wrappedSolContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, provider);
+    
+    const [stakedAmount, loanedAmount] = await retryRead(() => 
+      stakingContract.getUserStake(userAddress)
+    );
+    const decimals = await retryRead(() => 
+      wrappedSolContract.decimals()
+    );
+    
+    if (stakedAmount <= 0n) {
+      throw new NotFoundError("No stakes to unstake");
+    }
+    
+    const unstakeAmount = resolveUnstakeAmount(amt, stakedAmount, decimals);
+    const burnAmount = calculateBurnAmount(unstakeAmount, stakedAmount, loanedAmount);
+    
+    return {
+      unstakeAmount: ethers.formatUnits(unstakeAmount, decimals),
+      burnAmount: ethers.formatUnits(burnAmount, 18),
+      remainingStakedAmount: ethers.formatUnits(stakedAmount - unstakeAmount, decimals),
+      remainingLoanedAmount: ethers.formatUnits(loanedAmount - burnAmount, 18),
+    };
+  }
+  
+  // Unstake the given amount of wrapped SOL, or the whole position when no amount is given
+  export async function executeUnstake(amt?: string, onPhase?: PhaseCallback<ExitPhase>, sourceToken: string = "native") {
+    console.log("Starting unstaking operation...");
+    
+    const pool = await resolveStakingPool(sourceToken);
+    const wallet = getServerWallet();
+    
+    // Sent transactions and amounts, for the ledger
+    const transactions: LedgerTransaction[] = [];
+    let unstakeAmountText = amt;
+    let burnedAmountText: string | undefined;
+    // "completed" once the unstake is recorded as such, a later failure doesn't record it as failed.
+    // null when there is nothing to unstake, which isn't timed.
+    let outcome: "completed" | "failed" | null = "failed";
+    const userAddress = wallet.address;
+    const stopTimer = operationDurationSeconds.startTimer({ operation: "unstake" });
+    
+    try {      
       // Connect to contracts
-      const wrappedSolContract = new ethers.Contract(WRAPPED_SOL_ADDRESS, ERC20_ABI, wallet);
-      const stakingContract = new ethers.Contract(STAKING_CONTRACT_ADDRESS, STAKING_ABI, wallet);
-      const loanTokenContract = new ethers.Contract(LOAN_TOKEN_ADDRESS, ERC20_ABI, wallet);
+      const wrappedSolContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, wallet);
+      const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, wallet);
+      const loanTokenContract = new ethers.Contract(pool.loanToken, ERC20_ABI, wallet);
       
       // Query staking status
-      const [stakedAmount, loanedAmount] = await executeWithRetry(() => 
+      const [stakedAmount, loanedAmount] = await retryRead(() => 
         stakingContract.getUserStake(userAddress)
       );
       
-      const decimals = await executeWithRetry(() => 
+      const decimals = await retryRead(() => 
         wrappedSolContract.decimals()
       );
       
@@ -334,46 +813,69 @@ import {
       
       if (stakedAmount <= 0n) {
         console.log("No stakes to unstake");
+        outcome = null;
         return null;
       }
       
+      const unstakeAmount = resolveUnstakeAmount(amt, stakedAmount, decimals);
+      const burnAmount = calculateBurnAmount(unstakeAmount, stakedAmount, loanedAmount);
+      unstakeAmountText = ethers.formatUnits(unstakeAmount, decimals);
+      burnedAmountText = ethers.formatUnits(burnAmount, 18);
+      console.log(`Unstaking ${ethers.formatUnits(unstakeAmount, decimals)} SOL will burn ${ethers.formatUnits(burnAmount, 18)} CCLT`);
+      
       // Check loan token balance to ensure there are enough tokens to return
-      const loanBalance = await executeWithRetry(() => 
+      const loanBalance = await retryRead(() => 
         loanTokenContract.balanceOf(userAddress)
       );
       
       console.log(`Loan token balance: ${ethers.formatUnits(loanBalance, 18)} CCLT`);
       
-      if (loanBalance < loanedAmount) {
-        throw new Error(`Insufficient loan token balance, cannot unstake. Need ${ethers.formatUnits(loanedAmount, 18)} CCLT but only have ${ethers.formatUnits(loanBalance, 18)} CCLT`);
+      if (loanBalance < burnAmount) {
+        throw new InsufficientLoanTokensError(`Insufficient loan token balance, cannot unstake. Need ${ethers.formatUnits(burnAmount, 18)} CCLT but only have ${ethers.formatUnits(loanBalance, 18)} CCLT`);
       }
       
       // Approve staking contract to use loan tokens
       console.log("Approving staking contract to use loan tokens...");
-      const approveTx = await executeWithRetry(() => 
-        loanTokenContract.approve(STAKING_CONTRACT_ADDRESS, loanedAmount)
+      const approveTx = await sendTransaction(wallet,
+        await loanTokenContract.approve.populateTransaction(pool.stakingContract, burnAmount)
       );
       console.log(`Approval transaction submitted, transaction hash: ${approveTx.hash}`);
-      await executeWithRetry(() => approveTx.wait());
+      await retryRead(() => approveTx.wait());
       console.log("Approval transaction confirmed");
+      transactions.push({ chain: DESTINATION_CHAIN, hash: approveTx.hash, label: "approve" });
       
       // Execute unstaking
       console.log("Executing unstaking operation...");
-      const unstakeTx = await executeWithRetry(() => 
-        stakingContract.unstake(stakedAmount)
+      const unstakeTx = await sendTransaction(wallet,
+        await stakingContract.unstake.populateTransaction(unstakeAmount)
       );
       console.log(`Unstaking transaction submitted, transaction hash: ${unstakeTx.hash}`);
-      await executeWithRetry(() => unstakeTx.wait());
+      await retryRead(() => unstakeTx.wait());
       console.log("Unstaking transaction confirmed");
+      transactions.push({ chain: DESTINATION_CHAIN, hash: unstakeTx.hash, label: "unstake" });
+      recordLedgerEntry({
+        type: "unstake",
+        status: "completed",
+        amount: unstakeAmountText,
+        burnedAmount: burnedAmountText,
+        token: pool.sourceToken,
+        address: userAddress,
+        transactions,
+      });
+      outcome = "completed";
+      await reportPhase(onPhase, "unstaked", [unstakeTx.hash], {
+        chain: DESTINATION_CHAIN,
+        amount: ethers.formatUnits(unstakeAmount, decimals),
+      });
       
       // Query new Wrapped SOL balance
-      const newBalance = await executeWithRetry(() => 
+      const newBalance = await retryRead(() => 
         wrappedSolContract.balanceOf(userAddress)
       );
       console.log(`Wrapped SOL balance after unstaking: ${ethers.formatUnits(newBalance, decimals)} SOL`);
       
       // Check staking status to confirm it has been released
-      const [newStakedAmount, newLoanedAmount] = await executeWithRetry(() => 
+      const [newStakedAmount, newLoanedAmount] = await retryRead(() => 
         stakingContract.getUserStake(userAddress)
       );
       
@@ -383,59 +885,106 @@ import {
       
       // Return unstaking result
       return {
-        withdrawnAmount: ethers.formatUnits(stakedAmount, decimals),
+        withdrawnAmount: ethers.formatUnits(unstakeAmount, decimals),
+        burnedAmount: ethers.formatUnits(burnAmount, 18),
         newStakedAmount: ethers.formatUnits(newStakedAmount, decimals),
         newLoanedAmount: ethers.formatUnits(newLoanedAmount, 18)
       };
-    } catch (error) {
+    } catch (error: any) {
       console.error("Unstaking operation failed:", error);
+      if (outcome !== "completed") {
+        recordLedgerEntry({
+          type: "unstake",
+          status: "failed",
+          amount: unstakeAmountText,
+          burnedAmount: burnedAmountText,
+          token: pool.sourceToken,
+          address: userAddress,
+          transactions,
+          error: error?.message || String(error),
+        });
+      }
       throw error;
+    } finally {
+      if (outcome) {
+        stopTimer({ status: outcome });
+      }
     }
   }
   
   // Cross-chain transfer function
-  async function tokenTransfer<N extends Network>(
-    wh: Wormhole<N>,
-    route: {
-      token: TokenId;
-      amount: bigint;
-      source: SignerStuff<N, Chain>;
-      destination: SignerStuff<N, Chain>;
-      automatic: boolean;
-      payload?: Uint8Array;
-    }
-  ) {
-    const xfer = await wh.tokenTransfer(
-      route.token,
-      route.amount,
-      route.source.address,
-      route.destination.address,
-      route.automatic ?? false,
-      route.payload
-    );
-   
-    const quote = await TokenTransfer.quoteTransfer(
-      wh,
-      route.source.chain,
-      route.destination.chain,
-      xfer.transfer
-    );
-    
-    if (xfer.transfer.automatic && quote.destinationToken.amount < 0)
-      throw "The amount requested is too low to cover the fee and any native gas requested.";
-    
-    const srcTxids = await xfer.initiateTransfer(route.source.signer);
+  async function tokenTransfer(request: BridgeTransferRequest, onPhase?: PhaseCallback<TransferPhase>) {
+    const transfer = await getBridgeClient().initiateTransfer(request);
+    const srcTxids = transfer.txids;
     console.log("Executing cross-chain operation and returning monitoring hash:");
     console.log(`Wormhole Hash: ${srcTxids[0]}`);
     console.log(`Wormhole Hash: ${srcTxids[1] ?? srcTxids[0]}`);
-   
+    await reportPhase(onPhase, "initiated", srcTxids, { chain: request.fromChain });
+    
+    const destTxids = await redeemTransfer(transfer, onPhase);
+    
+    return { srcTxids, destTxids, transfer };
+  }
+  
+  // Report a completed phase to the caller and to the progress stream of the current operation
+  async function reportPhase<P extends string>(
+    onPhase: PhaseCallback<P> | undefined,
+    phase: P,
+    txids: string[],
+    details: PhaseDetails = {}
+  ) {
+    emitProgress({ type: "phase", phase, txHashes: txids, ...details });
+    await onPhase?.(phase, txids, details);
+  }
+  
+  // Wait for the transfer attestation and redeem it on the destination chain
+  async function redeemTransfer(
+    transfer: BridgeTransfer,
+    onPhase?: PhaseCallback<TransferPhase>,
+    attestationTimeout: number = 60_000
+  ) {
+    const bridge = getBridgeClient();
     console.log("Querying cross-chain proof...");
-    const attestIds = await xfer.fetchAttestation(60_000);
+    const stopWait = attestationWaitSeconds.startTimer({ from_chain: transfer.fromChain });
+    let attestIds: string[];
+    try {
+      attestIds = await bridge.fetchAttestation(transfer, attestationTimeout);
+      stopWait({ status: "ok" });
+    } catch (error: any) {
+      const appError = toAppError(error);
+      if (appError instanceof AttestationTimeoutError) {
+        stopWait({ status: "timeout" });
+        const txid = transfer.txids[transfer.txids.length - 1];
+        throw new AttestationTimeoutError(
+          `Timed out after ${attestationTimeout / 1000}s waiting for the VAA of transfer ${txid}. The transfer was sent and can be redeemed once the VAA is signed`,
+          txid,
+          error
+        );
+      }
+      stopWait({ status: "error" });
+      throw appError;
+    }
     console.log("Cross-chain proof query completed:", attestIds);
-    console.log("Cross-chain proof query completed");
+    await reportPhase(onPhase, "attested", attestIds);
     
+    const stopTimer = operationDurationSeconds.startTimer({ operation: "redeem" });
+    
+    // The relayer submits the redemption for automatic transfers, only wait for it
+    if (transfer.automatic) {
+      try {
+        await waitForRelayer(transfer);
+      } catch (error) {
+        stopTimer({ status: "failed" });
+        throw error;
+      }
+      stopTimer({ status: "completed" });
+      await reportPhase(onPhase, "redeemed", [], { chain: transfer.toChain });
+      return [];
+    }
+    
+    let destTxids: string[] = [];
     try {
-      const destTxids = await xfer.completeTransfer(route.destination.signer);
+      destTxids = await bridge.completeTransfer(transfer);
       console.log(`Cross-chain transfer completed, hash: `, destTxids);
     } catch (error: any) {
       // Check if it's a "transfer already completed" error
@@ -443,9 +992,30 @@ import {
         console.log("Transfer has already been completed, possibly automatically by a relayer or successfully completed previously");
         console.log("This is not an error, your assets should have reached the destination chain");
       } else {
+        stopTimer({ status: "failed" });
         throw error;
       }
     }
+    stopTimer({ status: "completed" });
+    await reportPhase(onPhase, "redeemed", destTxids, { chain: transfer.toChain });
     
-    return srcTxids;
-  }
\ No newline at end of file
+    return destTxids;
+  }
+  
+  // Poll the destination until the relayer has redeemed an automatic transfer
+  async function waitForRelayer(
+    transfer: BridgeTransfer,
+    timeout: number = Number(process.env.RELAY_TIMEOUT_MS || 600_000),
+    pollInterval: number = 5000
+  ) {
+    const bridge = getBridgeClient();
+    console.log("Waiting for the relayer to redeem the transfer...");
+    const deadline = Date.now() + timeout;
+    while (!(await bridge.isTransferComplete(transfer))) {
+      if (Date.now() >= deadline) {
+        throw new OperationTimeoutError(`Timed out after ${timeout / 1000}s waiting for the relayer to redeem the transfer, it can still be redeemed manually`);
+      }
+      await new Promise(resolve => setTimeout(resolve, pollInterval));
+    }
+    console.log("Relayer redeemed the transfer");
+  }
@@ -0,0 +1,158 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import solc from "solc";
+
+// Compiles the contracts and deploys them to a local Anvil or Hardhat node, with a mock ERC20 as wrapped SOL.
+// Usage: deploy-local [--rpc <url>] [--out <deployment file>]
+
+const CONTRACT_DIR = path.join(__dirname, "../contract");
+const NODE_MODULES = path.join(__dirname, "../node_modules");
+
+// First account of the default Anvil / Hardhat mnemonic
+export const LOCAL_PRIVATE_KEY = "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80";
+
+export const LOCAL_RPC_URL = "http://127.0.0.1:8545";
+
+// Loan tokens minted per staked base unit, as in the testnet deployment
+const LOAN_RATIO = 10n;
+
+// Wrapped SOL minted to the deployer to stake with
+const INITIAL_WRAPPED_BALANCE = "100";
+
+interface CompiledContract {
+  abi: ethers.InterfaceAbi;
+  bytecode: string;
+}
+
+// Compile every contract in contract/, resolving OpenZeppelin imports from node_modules
+export function compileContracts(): Record<string, CompiledContract> {
+  const sources: Record<string, { content: string }> = {};
+  for (const file of fs.readdirSync(CONTRACT_DIR).filter(file => file.endsWith(".sol"))) {
+    sources[file] = { content: fs.readFileSync(path.join(CONTRACT_DIR, file), "utf8") };
+  }
+
+  const input = {
+    language: "Solidity",
+    sources,
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      // Cancun opcodes are not supported by every local node (e.g. Ganache)
+      evmVersion: "shanghai",
+      // CrossChainStaking imports ReentrancyGuard from security/, where OpenZeppelin 4 kept it;
+      // the installed OpenZeppelin 5 has it in utils/
+      remappings: ["@openzeppelin/contracts/security/=@openzeppelin/contracts/utils/"],
+      outputSelection: { "*": { "*": ["abi", "evm.bytecode.object"] } },
+    },
+  };
+  const findImports = (importPath: string) => {
+    const file = path.join(NODE_MODULES, importPath);
+    return fs.existsSync(file) ? { contents: fs.readFileSync(file, "utf8") } : { error: `File not found: ${importPath}` };
+  };
+
+  const output = JSON.parse(solc.compile(JSON.stringify(input), { import: findImports }));
+  const errors = (output.errors ?? []).filter((error: any) => error.severity === "error");
+  if (errors.length > 0) {
+    throw new Error(`Contract compilation failed:\n${errors.map((error: any) => error.formattedMessage).join("\n")}`);
+  }
+
+  const contracts: Record<string, CompiledContract> = {};
+  for (const file of Object.keys(sources)) {
+    for (const [name, contract] of Object.entries<any>(output.contracts[file])) {
+      contracts[name] = { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+    }
+  }
+  return contracts;
+}
+
+async function deploy(signer: ethers.Signer, contract: CompiledContract, name: string, args: unknown[]) {
+  const factory = new ethers.ContractFactory(contract.abi, contract.bytecode, signer);
+  const deployed = await factory.deploy(...args);
+  await deployed.waitForDeployment();
+  const address = await deployed.getAddress();
+  console.log(`${name} deployed at ${address}`);
+  return address;
+}
+
+// Deploy the mock wrapped SOL, LoanToken and CrossChainStaking, make the staking contract a minter
+// and fund the deployer with wrapped SOL
+export async function deployLocal(rpcUrl: string = LOCAL_RPC_URL, privateKey: string = LOCAL_PRIVATE_KEY) {
+  console.log("Compiling contracts...");
+  const contracts = compileContracts();
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+  // Local nodes mine instantly, the nonce manager keeps consecutive deployments from reusing a nonce
+  const wallet = new ethers.Wallet(privateKey, provider);
+  const signer = new ethers.NonceManager(wallet);
+  const startBlock = await provider.getBlockNumber();
+
+  console.log(`Deploying from ${wallet.address} to ${rpcUrl}...`);
+  const wrappedToken = await deploy(signer, contracts.MockERC20, "Mock wrapped SOL", ["Wrapped SOL", "wSOL", 8]);
+  const loanToken = await deploy(signer, contracts.LoanToken, "LoanToken", ["Cross Chain Loan Token", "CCLT", wallet.address]);
+  const stakingContract = await deploy(signer, contracts.CrossChainStaking, "CrossChainStaking", [wrappedToken, loanToken, LOAN_RATIO, wallet.address]);
+
+  const loanTokenContract = new ethers.Contract(loanToken, contracts.LoanToken.abi, signer);
+  await (await loanTokenContract.addMinter(stakingContract)).wait();
+  console.log("Staking contract added as loan token minter");
+
+  const wrappedContract = new ethers.Contract(wrappedToken, contracts.MockERC20.abi, signer);
+  await (await wrappedContract.mint(wallet.address, ethers.parseUnits(INITIAL_WRAPPED_BALANCE, 8))).wait();
+  console.log(`Minted ${INITIAL_WRAPPED_BALANCE} wrapped SOL to ${wallet.address}`);
+
+  return { rpcUrl, deployer: wallet.address, stakingContract, loanToken, wrappedToken, startBlock };
+}
+
+// Deployment config for the app: the testnet chain pair with the destination pointed at the local node
+export function writeDeploymentConfig(file: string, deployment: Awaited<ReturnType<typeof deployLocal>>) {
+  const config = {
+    network: "Testnet",
+    sourceChain: "Solana",
+    destinationChain: "Sepolia",
+    chains: {
+      Solana: {},
+      Sepolia: {
+        rpc: deployment.rpcUrl,
+        contracts: {
+          stakingContract: deployment.stakingContract,
+          loanToken: deployment.loanToken,
+          wrappedToken: deployment.wrappedToken,
+          startBlock: deployment.startBlock,
+        },
+      },
+    },
+  };
+  fs.writeFileSync(file, JSON.stringify(config, null, 2) + "\n");
+  console.log(`Deployment config written to ${file}`);
+}
+
+function parseArgs(argv: string[]) {
+  const args = {
+    rpc: process.env.LOCAL_RPC_URL || LOCAL_RPC_URL,
+    out: path.join(__dirname, "../deployment.local.json"),
+  };
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === "--rpc" && argv[i + 1]) {
+      args.rpc = argv[++i];
+    } else if (argv[i] === "--out" && argv[i + 1]) {
+      args.out = path.resolve(argv[++i]);
+    } else {
+      throw new Error("Usage: deploy-local [--rpc <url>] [--out <deployment file>]");
+    }
+  }
+  return args;
+}
+
+if (require.main === module) {
+  (async function () {
+    try {
+      const { rpc, out } = parseArgs(process.argv.slice(2));
+      const deployment = await deployLocal(rpc, process.env.LOCAL_PRIVATE_KEY || LOCAL_PRIVATE_KEY);
+      writeDeploymentConfig(out, deployment);
+      console.log(`Start the app against it with DEPLOYMENT_CONFIG=${out} and ETH_PRIVATE_KEY set to the deployer key`);
+      process.exit(0);
+    } catch (error) {
+      console.error("Local deployment failed:", error);
+      process.exit(1);
+    }
+  })();
+}
@@ -0,0 +1,368 @@
+import { Connection, Transaction } from "@solana/web3.js";
+import {
+  Chain,
+  ChainContext,
+  Network,
+  UnsignedTransaction,
+  Wormhole,
+  amount,
+  chainToPlatform,
+} from "@wormhole-foundation/sdk";
+import { ethers } from "ethers";
+import { getDeploymentConfig } from "./config";
+import {
+  ERC20_ABI,
+  STAKING_ABI,
+  StakeOptions,
+  TransferOptions,
+  calculateBurnAmount,
+  getServerEvmAddress,
+  quoteCrossChainTransfer,
+  resolveStakingPool,
+  resolveUnstakeAmount,
+  verifyStakingPool,
+} from "./cross-chain-staking";
+import { getEvmProvider, getFeeOverrides } from "./evm";
+import { getSigner, getTokenDecimals } from "./helpers/helpers";
+import { getWormhole } from "./wormhole-bridge";
+
+// Plans an operation without broadcasting anything: quotes the transfer, checks balances,
+// allowances and contract configuration, and simulates every transaction that can be simulated
+
+const { sourceChain: SOURCE_CHAIN, destinationChain: DESTINATION_CHAIN } = getDeploymentConfig();
+
+// One transaction the operation would send, in order
+export interface PlannedTransaction {
+  chain: Chain;
+  description: string;
+  // Estimated gas units (EVM) or compute units (Solana)
+  gasLimit?: string;
+  // Estimated cost in the chain's native token
+  fee?: string;
+  // Why the transaction was not simulated
+  note?: string;
+  // Why the transaction would fail
+  error?: string;
+}
+
+// Checks shared by every plan
+export interface DryRunResult {
+  transactions: PlannedTransaction[];
+  // Estimated fees per chain, in the chain's native token
+  fees: Partial<Record<Chain, string>>;
+  // Problems that would make the operation fail
+  errors: string[];
+  warnings: string[];
+  ok: boolean;
+}
+
+// Short reason of a failed RPC call or reverted simulation
+function errorReason(error: any): string {
+  return error?.reason || error?.shortMessage || error?.message || String(error);
+}
+
+// Fill in fees and ok once every transaction is planned
+function summarize(
+  transactions: PlannedTransaction[],
+  errors: string[],
+  warnings: string[]
+): DryRunResult {
+  const fees: Partial<Record<Chain, string>> = {};
+  const decimals = (chain: Chain) => (chainToPlatform(chain) === "Solana" ? 9 : 18);
+  for (const tx of transactions) {
+    if (tx.fee !== undefined) {
+      const total = ethers.parseUnits(fees[tx.chain] ?? "0", decimals(tx.chain)) + ethers.parseUnits(tx.fee, decimals(tx.chain));
+      fees[tx.chain] = ethers.formatUnits(total, decimals(tx.chain));
+    }
+  }
+  const allErrors = [...errors, ...transactions.filter(tx => tx.error).map(tx => `${tx.description}: ${tx.error}`)];
+  return { transactions, fees, errors: allErrors, warnings, ok: allErrors.length === 0 };
+}
+
+// The destination wallet must hold enough ETH for the estimated fees
+function checkGasBalance(result: DryRunResult, ethBalance: bigint) {
+  const gasCost = ethers.parseEther(result.fees[DESTINATION_CHAIN] ?? "0");
+  if (ethBalance < gasCost) {
+    result.errors.push(`Insufficient ETH for gas, need about ${ethers.formatEther(gasCost)} ETH but the wallet holds ${ethers.formatEther(ethBalance)}`);
+    result.ok = false;
+  }
+}
+
+// Gas price the fee estimates are based on, the EIP-1559 max fee when available
+async function getGasPrice(provider: ethers.Provider): Promise<bigint> {
+  const feeData = await provider.getFeeData();
+  return feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+}
+
+// Gas price the server wallet would pay on the destination, or why the fee caps would stop it from sending
+async function getDestinationGasPrice(): Promise<{ gasPrice: bigint; feeError?: string }> {
+  try {
+    const fees = await getFeeOverrides();
+    return { gasPrice: fees.maxFeePerGas ?? fees.gasPrice ?? 0n };
+  } catch (error) {
+    return { gasPrice: await getGasPrice(getEvmProvider()), feeError: errorReason(error) };
+  }
+}
+
+// Estimate one EVM call; a revert is reported on the transaction instead of thrown
+async function estimateEvmTransaction(
+  chain: Chain,
+  description: string,
+  gasPrice: bigint,
+  estimate: () => Promise<bigint>
+): Promise<PlannedTransaction> {
+  try {
+    const gasLimit = await estimate();
+    return { chain, description, gasLimit: gasLimit.toString(), fee: ethers.formatEther(gasLimit * gasPrice) };
+  } catch (error) {
+    return { chain, description, error: errorReason(error) };
+  }
+}
+
+// Simulate the SDK's unsigned source chain transactions
+async function simulateSourceTransactions<N extends Network>(
+  chain: ChainContext<N, Chain>,
+  txs: AsyncGenerator<UnsignedTransaction<N, Chain>>
+): Promise<PlannedTransaction[]> {
+  const planned: PlannedTransaction[] = [];
+
+  if (chainToPlatform(chain.chain) === "Solana") {
+    const connection = (await chain.getRpc()) as Connection;
+    for await (const tx of txs) {
+      const { transaction } = tx.transaction as { transaction: Transaction };
+      transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+      try {
+        const { value: fee } = await connection.getFeeForMessage(transaction.compileMessage());
+        // Signatures are not verified, the ephemeral signers don't need to sign
+        const { value: simulation } = await connection.simulateTransaction(transaction);
+        planned.push({
+          chain: chain.chain,
+          description: tx.description,
+          gasLimit: simulation.unitsConsumed?.toString(),
+          fee: fee !== null ? ethers.formatUnits(fee, 9) : undefined,
+          error: simulation.err ? `${JSON.stringify(simulation.err)} ${(simulation.logs ?? []).slice(-1).join("")}`.trim() : undefined,
+        });
+      } catch (error) {
+        planned.push({ chain: chain.chain, description: tx.description, error: errorReason(error) });
+      }
+    }
+    return planned;
+  }
+
+  const provider = (await chain.getRpc()) as ethers.Provider;
+  const gasPrice = await getGasPrice(provider);
+  for await (const tx of txs) {
+    planned.push(await estimateEvmTransaction(chain.chain, tx.description, gasPrice, () =>
+      provider.estimateGas(tx.transaction as ethers.TransactionRequest)
+    ));
+  }
+  return planned;
+}
+
+// Plan a transfer from the server's source wallet to its destination wallet
+export async function dryRunTransfer(amt: string, options: TransferOptions = {}) {
+  console.log("Planning cross-chain transfer (dry run)...");
+
+  // Also rejects tokens without a staking pool and amounts that don't cover the relayer fee
+  const quote = await quoteCrossChainTransfer(amt, options);
+
+  const wh = await getWormhole();
+  const sendChain = wh.getChain(SOURCE_CHAIN);
+  const rcvChain = wh.getChain(DESTINATION_CHAIN);
+  const source = await getSigner(sendChain);
+  const destination = await getSigner(rcvChain);
+
+  const token = Wormhole.tokenId(sendChain.chain, quote.sourceToken);
+  const decimals = await getTokenDecimals(wh, token, sendChain);
+  const units = amount.units(amount.parse(amt, decimals));
+  const sender = source.address.address.toString();
+
+  const errors: string[] = [];
+  const warnings = [...quote.warnings];
+
+  const balance = await wh.getBalance(sendChain.chain, token.address, sender);
+  if (balance !== null && balance < units) {
+    errors.push(`Insufficient balance on ${SOURCE_CHAIN}, sending ${amt} but the wallet holds ${ethers.formatUnits(balance, decimals)}`);
+  }
+
+  let txs: AsyncGenerator<UnsignedTransaction<any, any>>;
+  if (quote.automatic) {
+    const nativeGas = options.nativeGas ? amount.units(amount.parse(options.nativeGas, decimals)) : undefined;
+    const atb = await sendChain.getAutomaticTokenBridge();
+    txs = atb.transfer(source.address.address, destination.address, token.address, units, nativeGas);
+  } else {
+    const tb = await sendChain.getTokenBridge();
+    txs = tb.transfer(source.address.address, destination.address, token.address, units);
+    warnings.push(`The redeem transaction on ${DESTINATION_CHAIN} can only be estimated once the VAA exists`);
+  }
+  const transactions = await simulateSourceTransactions(sendChain, txs);
+
+  return {
+    quote,
+    sourceAddress: sender,
+    destinationAddress: destination.address.address.toString(),
+    sourceBalance: balance !== null ? ethers.formatUnits(balance, decimals) : undefined,
+    ...summarize(transactions, errors, warnings),
+  };
+}
+
+// Plan staking from the server's destination wallet. incomingAmount is wrapped SOL that a
+// transfer would deliver first, staked by default like the staking pipeline does.
+export async function dryRunStaking(options: StakeOptions, incomingAmount?: string) {
+  console.log("Planning staking operation (dry run)...");
+
+  if (options.stakeAll && options.amount !== undefined) {
+    throw new Error("Specify either an amount to stake or the stakeAll option");
+  }
+  if (!options.stakeAll && options.amount === undefined && incomingAmount === undefined) {
+    throw new Error("Specify either an amount to stake or the stakeAll option");
+  }
+
+  const pool = await resolveStakingPool(options.token);
+  const provider = getEvmProvider();
+  const address = getServerEvmAddress();
+
+  const wrappedContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, provider);
+  const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, provider);
+
+  // Wrong tokens or a missing minter role are fixed by the owner, not by staking
+  const configurationError = await verifyStakingPool(pool).then(() => undefined, (error: Error) => error.message);
+
+  const [decimals, balance, allowance, loanRatio, ethBalance, { gasPrice, feeError }] = await Promise.all([
+    wrappedContract.decimals(),
+    wrappedContract.balanceOf(address) as Promise<bigint>,
+    wrappedContract.allowance(address, pool.stakingContract) as Promise<bigint>,
+    stakingContract.loanRatio() as Promise<bigint>,
+    provider.getBalance(address),
+    getDestinationGasPrice(),
+  ]);
+
+  const incoming = incomingAmount !== undefined ? ethers.parseUnits(incomingAmount, decimals) : 0n;
+  const available = balance + incoming;
+
+  let stakeAmount = options.stakeAll ? available : incoming;
+  if (options.amount !== undefined) {
+    try {
+      stakeAmount = ethers.parseUnits(options.amount, decimals);
+    } catch {
+      throw new Error(`Invalid stake amount: ${options.amount} (Wrapped SOL has ${decimals} decimals)`);
+    }
+  }
+
+  const errors = [configurationError, feeError].filter((error): error is string => !!error);
+  const warnings: string[] = [];
+  if (stakeAmount <= 0n) {
+    errors.push("No Wrapped SOL to stake");
+  } else if (stakeAmount > available) {
+    errors.push(`Insufficient Wrapped SOL balance, staking ${ethers.formatUnits(stakeAmount, decimals)} SOL but only ${ethers.formatUnits(available, decimals)} SOL would be available`);
+  }
+
+  const transactions: PlannedTransaction[] = [];
+  if (allowance < stakeAmount) {
+    transactions.push(await estimateEvmTransaction(DESTINATION_CHAIN, "Approve Wrapped SOL", gasPrice, () =>
+      wrappedContract.approve.estimateGas(pool.stakingContract, stakeAmount, { from: address })
+    ));
+  }
+
+  // stake() reverts until the tokens, the approval and the contract configuration are in place
+  const pending = [
+    balance < stakeAmount && incoming > 0n ? "the transfer has arrived" : undefined,
+    allowance < stakeAmount ? "the approval is confirmed" : undefined,
+    configurationError ? "the staking contract is configured" : undefined,
+  ].filter(Boolean);
+  if (pending.length > 0 && stakeAmount > 0n && stakeAmount <= available) {
+    transactions.push({ chain: DESTINATION_CHAIN, description: "Stake", note: `Can only be simulated once ${pending.join(" and ")}` });
+  } else if (stakeAmount > 0n && stakeAmount <= available) {
+    transactions.push(await estimateEvmTransaction(DESTINATION_CHAIN, "Stake", gasPrice, () =>
+      stakingContract.stake.estimateGas(stakeAmount, { from: address })
+    ));
+  }
+
+  const result = summarize(transactions, errors, warnings);
+  checkGasBalance(result, ethBalance);
+
+  return {
+    address,
+    wrappedBalance: ethers.formatUnits(balance, decimals),
+    stakeAmount: ethers.formatUnits(stakeAmount > 0n ? stakeAmount : 0n, decimals),
+    // Loan tokens minted, using the same formula as CrossChainStaking.stake
+    expectedLoanAmount: ethers.formatUnits((stakeAmount > 0n ? stakeAmount : 0n) * loanRatio, 18),
+    ...result,
+  };
+}
+
+// Plan the whole staking pipeline: the transfer, then staking what it delivers
+export async function dryRunCrossChainStake(
+  amt: string,
+  stakeOptions: StakeOptions,
+  transferOptions: Omit<TransferOptions, "token"> = {}
+) {
+  const transfer = await dryRunTransfer(amt, { ...transferOptions, token: stakeOptions.token });
+  const staking = await dryRunStaking(stakeOptions, transfer.quote.destinationAmount);
+
+  const errors = [...transfer.errors, ...staking.errors];
+  return {
+    transfer,
+    staking,
+    fees: { ...transfer.fees, ...staking.fees },
+    errors,
+    warnings: [...transfer.warnings, ...staking.warnings],
+    ok: errors.length === 0,
+  };
+}
+
+// Plan an unstake from the server's destination wallet, the whole position by default.
+// Returns null when there is nothing staked, like executeUnstake.
+export async function dryRunUnstake(amt?: string, sourceToken: string = "native") {
+  console.log("Planning unstaking operation (dry run)...");
+
+  const pool = await resolveStakingPool(sourceToken);
+  const provider = getEvmProvider();
+  const address = getServerEvmAddress();
+
+  const wrappedContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, provider);
+  const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, provider);
+  const loanTokenContract = new ethers.Contract(pool.loanToken, ERC20_ABI, provider);
+
+  const [[stakedAmount, loanedAmount], decimals, loanBalance, ethBalance, { gasPrice, feeError }] = await Promise.all([
+    stakingContract.getUserStake(address) as Promise<[bigint, bigint]>,
+    wrappedContract.decimals(),
+    loanTokenContract.balanceOf(address) as Promise<bigint>,
+    provider.getBalance(address),
+    getDestinationGasPrice(),
+  ]);
+
+  if (stakedAmount <= 0n) {
+    return null;
+  }
+
+  const unstakeAmount = resolveUnstakeAmount(amt, stakedAmount, decimals);
+  const burnAmount = calculateBurnAmount(unstakeAmount, stakedAmount, loanedAmount);
+
+  const errors: string[] = feeError ? [feeError] : [];
+  if (loanBalance < burnAmount) {
+    errors.push(`Insufficient loan token balance, need ${ethers.formatUnits(burnAmount, 18)} CCLT but only have ${ethers.formatUnits(loanBalance, 18)} CCLT`);
+  }
+
+  const transactions = [
+    await estimateEvmTransaction(DESTINATION_CHAIN, "Approve loan tokens", gasPrice, () =>
+      loanTokenContract.approve.estimateGas(pool.stakingContract, burnAmount, { from: address })
+    ),
+    // The contract burns through its minter role, so unstake doesn't depend on the approval
+    await estimateEvmTransaction(DESTINATION_CHAIN, "Unstake", gasPrice, () =>
+      stakingContract.unstake.estimateGas(unstakeAmount, { from: address })
+    ),
+  ];
+
+  const result = summarize(transactions, errors, []);
+  checkGasBalance(result, ethBalance);
+
+  return {
+    address,
+    unstakeAmount: ethers.formatUnits(unstakeAmount, decimals),
+    burnAmount: ethers.formatUnits(burnAmount, 18),
+    remainingStakedAmount: ethers.formatUnits(stakedAmount - unstakeAmount, decimals),
+    remainingLoanedAmount: ethers.formatUnits(loanedAmount - burnAmount, 18),
+    ...result,
+  };
+}
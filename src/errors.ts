@@ -0,0 +1,211 @@
+import { ethers } from "ethers";
+
+// Errors with a stable code, reported to API clients as { code, message } with the code's HTTP
+// status. Errors thrown by ethers, the Wormhole SDK or Solana are classified by toAppError.
+
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "UNAUTHORIZED"
+  | "SPEND_LIMIT_EXCEEDED"
+  | "NOT_FOUND"
+  | "CONFLICT"
+  | "WALLET_BUSY"
+  | "ALREADY_REDEEMED"
+  | "INSUFFICIENT_BALANCE"
+  | "INSUFFICIENT_LOAN_TOKENS"
+  | "AMOUNT_TOO_LOW"
+  | "CONTRACT_REVERTED"
+  | "RATE_LIMITED"
+  | "NOT_CONFIGURED"
+  | "RPC_UNAVAILABLE"
+  | "ATTESTATION_TIMEOUT"
+  | "TIMEOUT"
+  | "INTERNAL_ERROR";
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  SPEND_LIMIT_EXCEEDED: 403,
+  NOT_FOUND: 404,
+  CONFLICT: 409,
+  WALLET_BUSY: 409,
+  ALREADY_REDEEMED: 409,
+  INSUFFICIENT_BALANCE: 422,
+  INSUFFICIENT_LOAN_TOKENS: 422,
+  AMOUNT_TOO_LOW: 422,
+  CONTRACT_REVERTED: 422,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+  NOT_CONFIGURED: 503,
+  RPC_UNAVAILABLE: 503,
+  ATTESTATION_TIMEOUT: 504,
+  TIMEOUT: 504,
+};
+
+export class AppError extends Error {
+  // The error this one was classified from, for the logs
+  readonly cause?: unknown;
+
+  constructor(readonly code: ErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code];
+  }
+}
+
+// A request that doesn't match its schema
+export class ValidationError extends AppError {
+  constructor(message: string) {
+    super("INVALID_REQUEST", message);
+  }
+}
+
+// Something the request names doesn't exist, e.g. a minter that isn't one
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super("NOT_FOUND", message);
+  }
+}
+
+// The current state doesn't allow the request, e.g. swapping tokens while funds are staked
+export class ConflictError extends AppError {
+  constructor(message: string) {
+    super("CONFLICT", message);
+  }
+}
+
+// The server or the contracts are missing configuration the operation needs
+export class NotConfiguredError extends AppError {
+  constructor(message: string) {
+    super("NOT_CONFIGURED", message);
+  }
+}
+
+// A spend above the API key's per-operation or daily limit
+export class SpendLimitError extends AppError {
+  constructor(message: string) {
+    super("SPEND_LIMIT_EXCEEDED", message);
+  }
+}
+
+// The wallet holds less than the operation needs: tokens to send or stake, a staked position, or gas
+export class InsufficientBalanceError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super("INSUFFICIENT_BALANCE", message, cause);
+  }
+}
+
+// Unstaking burns loan tokens, and the wallet holds fewer than the unstake needs
+export class InsufficientLoanTokensError extends AppError {
+  constructor(message: string) {
+    super("INSUFFICIENT_LOAN_TOKENS", message);
+  }
+}
+
+// The amount doesn't cover the relayer fee and native gas, or rounds to nothing
+export class AmountTooLowError extends AppError {
+  constructor(message: string) {
+    super("AMOUNT_TOO_LOW", message);
+  }
+}
+
+// The transfer was sent but its VAA wasn't signed in time; it can be redeemed once it is
+export class AttestationTimeoutError extends AppError {
+  constructor(message: string, readonly txid?: string, cause?: unknown) {
+    super("ATTESTATION_TIMEOUT", message, cause);
+  }
+}
+
+// A redemption, relay or arrival that didn't happen in time; the transfer itself was sent
+export class OperationTimeoutError extends AppError {
+  constructor(message: string) {
+    super("TIMEOUT", message);
+  }
+}
+
+// Someone, usually the relayer, redeemed the transfer already
+export class AlreadyRedeemedError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super("ALREADY_REDEEMED", message, cause);
+  }
+}
+
+// No RPC endpoint of a chain answered
+export class RpcUnavailableError extends AppError {
+  constructor(message: string, cause?: unknown) {
+    super("RPC_UNAVAILABLE", message, cause);
+  }
+}
+
+// A contract call or transaction reverted, with the reason decoded when there is one
+export class ContractRevertedError extends AppError {
+  constructor(readonly reason: string, cause?: unknown) {
+    super("CONTRACT_REVERTED", `Contract call reverted: ${reason}`, cause);
+  }
+}
+
+// Custom errors of the OpenZeppelin contracts the loan and wrapped tokens are built on
+const CONTRACT_ERRORS = new ethers.Interface([
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InvalidReceiver(address receiver)",
+  "error OwnableUnauthorizedAccount(address account)",
+]);
+
+const RPC_ERRORS = ["NETWORK_ERROR", "SERVER_ERROR", "TIMEOUT"] as const;
+
+function errorMessage(error: unknown): string {
+  return (error as any)?.shortMessage || (error instanceof Error ? error.message : String(error));
+}
+
+// Revert string, panic or custom error of a failed call
+function revertReason(error: ethers.CallExceptionError): string {
+  if (error.reason) {
+    return error.reason;
+  }
+  let revert: { name: string; args: ArrayLike<unknown> } | null = error.revert;
+  if (!revert && error.data) {
+    try {
+      revert = CONTRACT_ERRORS.parseError(error.data);
+    } catch {
+      // Malformed revert data
+    }
+  }
+  if (revert) {
+    return `${revert.name}(${Array.from(revert.args, String).join(", ")})`;
+  }
+  return error.data && error.data !== "0x" ? `unknown error ${error.data}` : "no reason given";
+}
+
+// Classify any thrown value; errors that match no class are INTERNAL_ERROR with their own message
+export function toAppError(error: unknown): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  const message = errorMessage(error);
+
+  // The token bridge's revert when a VAA is redeemed twice
+  if (message.includes("transfer already completed")) {
+    return new AlreadyRedeemedError("The transfer has already been redeemed", error);
+  }
+  if (message.includes("VAA not found")) {
+    return new AttestationTimeoutError("The transfer's VAA is not available yet", undefined, error);
+  }
+  if (ethers.isError(error, "INSUFFICIENT_FUNDS") || /insufficient (lamports|funds)|no record of a prior credit/i.test(message)) {
+    return new InsufficientBalanceError(`Not enough funds to pay for the transaction and its fees: ${message}`, error);
+  }
+  if (ethers.isError(error, "CALL_EXCEPTION")) {
+    return new ContractRevertedError(revertReason(error), error);
+  }
+  if (
+    RPC_ERRORS.some(code => ethers.isError(error, code)) ||
+    /fetch failed|failed to fetch|ECONNREFUSED|ECONNRESET|ETIMEDOUT|ENOTFOUND|socket hang up|429 Too Many Requests/i.test(message)
+  ) {
+    return new RpcUnavailableError(`RPC endpoint unavailable: ${message}`, error);
+  }
+  return new AppError("INTERNAL_ERROR", message, error);
+}
@@ -0,0 +1,270 @@
+import { Chain } from "@wormhole-foundation/sdk";
+import { ethers } from "ethers";
+import { getDeploymentConfig, getRpcUrls } from "./config";
+import { RpcUnavailableError } from "./errors";
+import { rpcErrorsTotal, rpcRetriesTotal } from "./metrics";
+
+// Shared connection to the destination chain: one provider failing over between the configured RPC
+// endpoints, wallets that send one transaction at a time, retries that never resend a transaction,
+// and EIP-1559 fees within the configured caps.
+
+// A stalled endpoint is given up on after this long, and the next one is tried
+const RPC_TIMEOUT_MS = 30_000;
+
+// Errors a retry can't fix: reverts, bad input, funds, nonces
+const PERMANENT_ERRORS: ethers.ErrorCode[] = [
+  "CALL_EXCEPTION",
+  "INSUFFICIENT_FUNDS",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+  "TRANSACTION_REPLACED",
+  "INVALID_ARGUMENT",
+  "MISSING_ARGUMENT",
+  "UNEXPECTED_ARGUMENT",
+  "NUMERIC_FAULT",
+  "VALUE_MISMATCH",
+  "UNSUPPORTED_OPERATION",
+  "NOT_IMPLEMENTED",
+  "ACTION_REJECTED",
+];
+
+export interface FeeOverrides {
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+  // Chains without EIP-1559
+  gasPrice?: bigint;
+}
+
+// JSON-RPC provider that moves on to the next endpoint when one can't be reached or answers with
+// an HTTP error, and keeps using the one that worked. JSON-RPC errors such as reverts are returned
+// as they are.
+class FailoverProvider extends ethers.JsonRpcProvider {
+  private readonly urls: string[];
+  private readonly chain: Chain;
+  private active = 0;
+
+  constructor(chain: Chain, urls: string[]) {
+    // Shared by every operation, so responses are only cached briefly: a block number cached for
+    // long makes a just mined receipt look unconfirmed
+    super(urls[0], undefined, {
+      staticNetwork: true,
+      polling: true,
+      pollingInterval: 4000,
+    });
+    this.urls = urls;
+    this.chain = chain;
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>): Promise<Array<ethers.JsonRpcResult>> {
+    let lastError: unknown;
+    for (let i = 0; i < this.urls.length; i++) {
+      const index = (this.active + i) % this.urls.length;
+      const request = new ethers.FetchRequest(this.urls[index]);
+      request.body = JSON.stringify(payload);
+      request.setHeader("content-type", "application/json");
+      request.timeout = RPC_TIMEOUT_MS;
+      try {
+        const response = await request.send();
+        response.assertOk();
+        if (index !== this.active) {
+          console.log(`Switched RPC endpoint to ${endpointName(this.urls[index])}`);
+          this.active = index;
+        }
+        const result = response.bodyJson;
+        return Array.isArray(result) ? result : [result];
+      } catch (error) {
+        console.log(`RPC endpoint ${endpointName(this.urls[index])} failed: ${errorMessage(error)}`);
+        rpcErrorsTotal.inc({ chain: this.chain });
+        lastError = error;
+      }
+    }
+    throw new RpcUnavailableError(`No ${this.chain} RPC endpoint answered: ${errorMessage(lastError)}`, lastError);
+  }
+}
+
+// Host of an RPC URL, the path often holds an API key
+function endpointName(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "(invalid URL)";
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return (error as any)?.shortMessage || (error instanceof Error ? error.message : String(error));
+}
+
+function isPermanentError(error: unknown): boolean {
+  return PERMANENT_ERRORS.some(code => ethers.isError(error, code));
+}
+
+let provider: FailoverProvider | null = null;
+
+// Provider for the destination chain, shared by every caller
+export function getEvmProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    const { destinationChain } = getDeploymentConfig();
+    provider = new FailoverProvider(destinationChain, getRpcUrls(destinationChain));
+  }
+  return provider;
+}
+
+const wallets = new Map<string, ethers.Wallet>();
+
+// Wallet for a private key, connected to the shared provider
+export function getEvmWallet(privateKey: string): ethers.Wallet {
+  let wallet = wallets.get(privateKey);
+  if (!wallet) {
+    wallet = new ethers.Wallet(privateKey, getEvmProvider());
+    wallets.set(privateKey, wallet);
+  }
+  return wallet;
+}
+
+// The server's own wallet, signing with ETH_PRIVATE_KEY
+export function getServerWallet(): ethers.Wallet {
+  const privateKey = process.env.ETH_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("Missing ETH_PRIVATE_KEY environment variable");
+  }
+  return getEvmWallet(privateKey);
+}
+
+// Retry a read-only call (eth_call, balances, receipts) on transient RPC failures.
+// Never wrap a send in this, a retried send can go out twice; use sendTransaction.
+export async function retryRead<T>(fn: () => Promise<T>, maxRetries = 5, delay = 3000): Promise<T> {
+  let lastError: unknown;
+  for (let i = 0; i < maxRetries; i++) {
+    try {
+      return await fn();
+    } catch (error: unknown) {
+      if (isPermanentError(error)) {
+        throw error;
+      }
+      console.log(`Attempt ${i+1}/${maxRetries} failed: ${errorMessage(error)}`);
+      lastError = error;
+      if (i < maxRetries - 1) {
+        rpcRetriesTotal.inc({ operation: "read" });
+        console.log(`Waiting ${delay/1000} seconds before retrying...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+        // Increase retry delay to avoid frequent requests
+        delay = Math.min(delay * 1.5, 15000);
+      }
+    }
+  }
+  throw lastError;
+}
+
+// Fee cap from an environment variable in gwei
+function getFeeCap(name: string): bigint | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  try {
+    return ethers.parseUnits(value, "gwei");
+  } catch {
+    throw new Error(`Invalid ${name}: ${value} (expected an amount in gwei)`);
+  }
+}
+
+// EIP-1559 fees for the next block, within EVM_MAX_FEE_PER_GAS_GWEI and EVM_MAX_PRIORITY_FEE_PER_GAS_GWEI.
+// Throws rather than send a transaction that would sit in the mempool while the base fee is above the cap.
+export async function getFeeOverrides(): Promise<FeeOverrides> {
+  const evmProvider = getEvmProvider();
+  const [feeData, block] = await retryRead(() => Promise.all([evmProvider.getFeeData(), evmProvider.getBlock("latest")]));
+  const maxFeeCap = getFeeCap("EVM_MAX_FEE_PER_GAS_GWEI");
+  const priorityFeeCap = getFeeCap("EVM_MAX_PRIORITY_FEE_PER_GAS_GWEI");
+
+  const baseFee = block?.baseFeePerGas;
+  if (baseFee == null || feeData.maxPriorityFeePerGas == null) {
+    const gasPrice = feeData.gasPrice ?? 0n;
+    if (maxFeeCap !== undefined && gasPrice > maxFeeCap) {
+      throw new Error(`Gas price ${ethers.formatUnits(gasPrice, "gwei")} gwei is above EVM_MAX_FEE_PER_GAS_GWEI (${ethers.formatUnits(maxFeeCap, "gwei")} gwei), try again later`);
+    }
+    return { gasPrice };
+  }
+
+  let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas;
+  if (priorityFeeCap !== undefined && maxPriorityFeePerGas > priorityFeeCap) {
+    maxPriorityFeePerGas = priorityFeeCap;
+  }
+  // Room for the base fee to double before the transaction is priced out
+  let maxFeePerGas = baseFee * 2n + maxPriorityFeePerGas;
+  if (maxFeeCap !== undefined) {
+    if (baseFee + maxPriorityFeePerGas > maxFeeCap) {
+      throw new Error(`Base fee ${ethers.formatUnits(baseFee, "gwei")} gwei is above EVM_MAX_FEE_PER_GAS_GWEI (${ethers.formatUnits(maxFeeCap, "gwei")} gwei), try again later`);
+    }
+    if (maxFeePerGas > maxFeeCap) {
+      maxFeePerGas = maxFeeCap;
+    }
+  }
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+// Sends queued per address, and the nonce after the last one each address sent
+const sendQueues = new Map<string, Promise<unknown>>();
+const nextNonces = new Map<string, number>();
+
+// Sign and broadcast a transaction from a wallet. Sends from the same address are serialized, so
+// concurrent operations never pick the same nonce.
+export function sendTransaction(wallet: ethers.Wallet, tx: ethers.TransactionRequest): Promise<ethers.TransactionResponse> {
+  const previous = sendQueues.get(wallet.address) ?? Promise.resolve();
+  const send = previous.catch(() => undefined).then(() => sendNext(wallet, tx));
+  sendQueues.set(wallet.address, send);
+  return send;
+}
+
+async function sendNext(wallet: ethers.Wallet, tx: ethers.TransactionRequest, attempts = 3): Promise<ethers.TransactionResponse> {
+  const evmProvider = getEvmProvider();
+  for (let attempt = 1; ; attempt++) {
+    // Our own pending transactions may not have reached the endpoint's pending count yet
+    const pendingNonce = await retryRead(() => evmProvider.getTransactionCount(wallet.address, "pending"));
+    const nonce = Math.max(pendingNonce, nextNonces.get(wallet.address) ?? 0);
+
+    // Estimating gas fails here on a revert, before the nonce is used
+    const fees = await getFeeOverrides();
+    const populated = await retryRead(() => wallet.populateTransaction({ ...tx, ...fees, nonce }));
+    const signed = await wallet.signTransaction(populated);
+
+    try {
+      const response = await broadcast(signed);
+      nextNonces.set(wallet.address, nonce + 1);
+      return response;
+    } catch (error) {
+      // Someone else sent from this address, sign again with a fresh nonce
+      if (ethers.isError(error, "NONCE_EXPIRED") && attempt < attempts) {
+        console.log(`Nonce ${nonce} of ${wallet.address} was already used, retrying with a new one...`);
+        nextNonces.delete(wallet.address);
+        continue;
+      }
+      throw error;
+    }
+  }
+}
+
+// Broadcast a signed transaction, retrying transient failures. The hash is known up front, so an
+// attempt that failed on our side but reached the chain is found instead of being sent again.
+async function broadcast(signed: string, maxRetries = 5, delay = 3000): Promise<ethers.TransactionResponse> {
+  const evmProvider = getEvmProvider();
+  const hash = ethers.keccak256(signed);
+  for (let i = 0; ; i++) {
+    try {
+      return await evmProvider.broadcastTransaction(signed);
+    } catch (error) {
+      const sent = await evmProvider.getTransaction(hash).catch(() => null);
+      if (sent) {
+        console.log(`Transaction ${hash} was already broadcast`);
+        return sent;
+      }
+      if (isPermanentError(error) || i >= maxRetries - 1) {
+        throw error;
+      }
+      console.log(`Broadcasting ${hash} failed (${errorMessage(error)}), retrying in ${delay/1000} seconds...`);
+      rpcRetriesTotal.inc({ operation: "broadcast" });
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 1.5, 15000);
+    }
+  }
+}
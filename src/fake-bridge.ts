@@ -0,0 +1,210 @@
+import { randomBytes } from "crypto";
+import { Chain, chainToPlatform } from "@wormhole-foundation/sdk";
+import { ethers } from "ethers";
+import { BridgeClient, BridgeTransfer, BridgeTransferRequest } from "./bridge";
+import { AmountTooLowError } from "./errors";
+
+// In-process BridgeClient that simulates the token bridge, for running the staking flow and its
+// failure branches offline. Amounts are kept in memory, nothing is signed on the source chain.
+
+export interface FakeBridgeOptions {
+  // Server wallet per chain, random when not set
+  addresses?: Partial<Record<Chain, string>>;
+  // Source token decimals, 9 as for SOL
+  sourceDecimals?: number;
+  // Wrapped token decimals on the destination, 8 as for Wormhole wrapped tokens
+  wrappedDecimals?: number;
+  // Wrapped token on the destination per source token
+  wrappedTokens?: Record<string, string>;
+  // Fee kept by the relayer of automatic transfers, in source token units
+  relayerFee?: string;
+  // Milliseconds from initiation until the VAA is signed, Infinity for one that never is
+  attestationDelay?: number;
+  // Milliseconds from attestation until the relayer redeems automatic transfers, Infinity for never
+  relayDelay?: number;
+  // Thrown by initiateTransfer instead of sending
+  initiateError?: Error;
+  // Transfers are redeemed by someone else as soon as they are attested
+  alreadyCompleted?: boolean;
+  // Called on redemption, by the server or the relayer, e.g. to mint the wrapped token on a local
+  // node; returns the destination transaction ids
+  onRedeem?: (transfer: BridgeTransfer) => Promise<string[]>;
+}
+
+interface FakeTransferState {
+  transfer: BridgeTransfer;
+  initiatedAt: number;
+  attestationIds?: string[];
+  attestedAt?: number;
+  completed: boolean;
+}
+
+// Mint of wrapped SOL, which native SOL is bridged as
+const WRAPPED_SOL_MINT = "So11111111111111111111111111111111111111112";
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function fakeTxid(chain: Chain) {
+  const bytes = randomBytes(32);
+  return chainToPlatform(chain) === "Solana" ? ethers.encodeBase58(bytes) : ethers.hexlify(bytes);
+}
+
+export function createFakeBridgeClient(options: FakeBridgeOptions = {}): BridgeClient {
+  const sourceDecimals = options.sourceDecimals ?? 9;
+  const wrappedDecimals = options.wrappedDecimals ?? 8;
+  const attestationDelay = options.attestationDelay ?? 0;
+  const relayDelay = options.relayDelay ?? 0;
+  const addresses: Partial<Record<Chain, string>> = { ...options.addresses };
+  // Keyed by the source chain transaction that published the message
+  const transfers = new Map<string, FakeTransferState>();
+  let sequence = 0;
+
+  const getState = (transfer: BridgeTransfer) => {
+    const state = transfers.get(transfer.txids[transfer.txids.length - 1]);
+    if (!state) {
+      throw new Error("Transfer was not initiated through this bridge client");
+    }
+    return state;
+  };
+
+  const redeem = async (state: FakeTransferState) => {
+    state.completed = true;
+    return options.onRedeem ? options.onRedeem(state.transfer) : [fakeTxid(state.transfer.toChain)];
+  };
+
+  // Destination amount in wrapped token units: the bridge truncates to at most 8 decimals
+  const quote = (request: BridgeTransferRequest) => {
+    const fee = request.automatic ? ethers.parseUnits(options.relayerFee ?? "0", sourceDecimals) : 0n;
+    const nativeGas = request.automatic && request.nativeGas ? ethers.parseUnits(request.nativeGas, sourceDecimals) : 0n;
+    const received = ethers.parseUnits(request.amount, sourceDecimals) - fee - nativeGas;
+    if (received < 0n) {
+      throw new AmountTooLowError("The amount requested is too low to cover the fee and any native gas requested.");
+    }
+    const scale = 10n ** BigInt(Math.max(sourceDecimals - wrappedDecimals, 0));
+    return {
+      relayerFee: ethers.formatUnits(fee, sourceDecimals),
+      destinationAmount: ethers.formatUnits(received / scale, Math.min(sourceDecimals, wrappedDecimals)),
+    };
+  };
+
+  const getAddress = async (chain: Chain) => {
+    if (!addresses[chain]) {
+      addresses[chain] = chainToPlatform(chain) === "Solana" ? ethers.encodeBase58(randomBytes(32)) : ethers.Wallet.createRandom().address;
+    }
+    return addresses[chain]!;
+  };
+
+  // Wrapped SOL is the real mint, other chains get a random address the first time it's asked for
+  const nativeWrappedTokens: Partial<Record<Chain, string>> = { Solana: WRAPPED_SOL_MINT };
+  const nativeWrappedToken = (chain: Chain) => {
+    if (!nativeWrappedTokens[chain]) {
+      nativeWrappedTokens[chain] = ethers.Wallet.createRandom().address;
+    }
+    return nativeWrappedTokens[chain]!;
+  };
+
+  return {
+    getAddress,
+
+    async getDecimals(chain, token) {
+      const wrapped = Object.values(options.wrappedTokens ?? {}).some(address => address.toLowerCase() === token.toLowerCase());
+      return wrapped ? wrappedDecimals : sourceDecimals;
+    },
+
+    async getNativeWrappedToken(chain) {
+      return nativeWrappedToken(chain);
+    },
+
+    async lookupWrappedToken(fromChain, toChain, token) {
+      const wrappedToken = options.wrappedTokens?.[token];
+      if (!wrappedToken) {
+        throw new Error(`Token ${token} on ${fromChain} has no wrapped token on ${toChain}`);
+      }
+      return wrappedToken;
+    },
+
+    async quoteTransfer(request) {
+      const { relayerFee, destinationAmount } = quote(request);
+      return {
+        sourceAmount: request.amount,
+        relayerFee,
+        destinationAmount,
+        destinationNativeGas: "0",
+        eta: Number.isFinite(attestationDelay) ? Math.round(attestationDelay / 1000) : undefined,
+        warnings: [],
+      };
+    },
+
+    async initiateTransfer(request) {
+      if (options.initiateError) {
+        throw options.initiateError;
+      }
+      const { destinationAmount } = quote(request);
+      const transfer: BridgeTransfer = {
+        fromChain: request.fromChain,
+        toChain: request.toChain,
+        token: request.token,
+        amount: request.amount,
+        automatic: request.automatic,
+        to: await getAddress(request.toChain),
+        txids: [fakeTxid(request.fromChain)],
+        destinationAmount,
+      };
+      transfers.set(transfer.txids[0], { transfer, initiatedAt: Date.now(), completed: false });
+      return transfer;
+    },
+
+    async recoverTransfer(chain, txid) {
+      const state = transfers.get(txid);
+      if (!state || state.transfer.fromChain !== chain) {
+        throw new Error(`No token transfer found in ${chain} transaction ${txid}`);
+      }
+      // As the SDK does, the transfer names the token the native currency was wrapped as
+      const token = state.transfer.token === "native" ? nativeWrappedToken(chain) : state.transfer.token;
+      return { ...state.transfer, token, txids: [...state.transfer.txids] };
+    },
+
+    async fetchAttestation(transfer, timeout) {
+      const state = getState(transfer);
+      const wait = state.initiatedAt + attestationDelay - Date.now();
+      if (wait > timeout) {
+        await sleep(timeout);
+        // Same message as the SDK when the guardians haven't signed in time
+        throw new Error("VAA not found");
+      }
+      await sleep(Math.max(wait, 0));
+
+      if (!state.attestationIds) {
+        state.attestationIds = [`${transfer.fromChain}/${"0".repeat(64)}/${sequence++}`];
+        state.attestedAt = Date.now();
+        if (options.alreadyCompleted) {
+          await redeem(state);
+        }
+      }
+      return state.attestationIds;
+    },
+
+    async completeTransfer(transfer) {
+      const state = getState(transfer);
+      if (!state.attestationIds) {
+        throw new Error("No VAA available to redeem the transfer");
+      }
+      if (state.completed) {
+        // The token bridge contract's revert reason
+        throw new Error("execution reverted: transfer already completed");
+      }
+      return redeem(state);
+    },
+
+    async isTransferComplete(transfer) {
+      const state = getState(transfer);
+      if (!state.attestationIds || state.attestedAt === undefined) {
+        throw new Error("No VAA available to check the redemption");
+      }
+      if (!state.completed && transfer.automatic && Date.now() >= state.attestedAt + relayDelay) {
+        await redeem(state);
+      }
+      return state.completed;
+    },
+  };
+}
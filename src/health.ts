@@ -0,0 +1,92 @@
+import { ethers } from "ethers";
+import { getDeploymentConfig, listStakingPoolConfigs } from "./config";
+import { getEvmProvider, getServerWallet } from "./evm";
+import { countRpcErrors, getWormhole } from "./wormhole-bridge";
+
+// Readiness checks for /readyz: both chains answer, the signing keys are configured and the
+// configured contracts are deployed. Each check is bounded, a hanging RPC endpoint fails it.
+
+const CHECK_TIMEOUT_MS = Number(process.env.READINESS_TIMEOUT_MS || 5000);
+
+export interface ReadinessCheck {
+  name: string;
+  ok: boolean;
+  error?: string;
+  durationMs: number;
+}
+
+async function runCheck(name: string, fn: () => Promise<void>): Promise<ReadinessCheck> {
+  const started = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    await Promise.race([
+      fn(),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${CHECK_TIMEOUT_MS} ms`)), CHECK_TIMEOUT_MS);
+      }),
+    ]);
+    return { name, ok: true, durationMs: Date.now() - started };
+  } catch (error: any) {
+    return { name, ok: false, error: error?.shortMessage || error?.message || String(error), durationMs: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Latest block of the source chain, through the Wormhole SDK's connection
+async function checkSourceRpc() {
+  const { sourceChain } = getDeploymentConfig();
+  await countRpcErrors(sourceChain, async () => {
+    const wh = await getWormhole();
+    await wh.getChain(sourceChain).getLatestBlock();
+  });
+}
+
+// Latest block of the destination chain, errors are counted by the provider itself
+async function checkDestinationRpc() {
+  await getEvmProvider().getBlockNumber();
+}
+
+async function checkSigners() {
+  const missing = ["SOL_PRIVATE_KEY", "ETH_PRIVATE_KEY"].filter(name => !process.env[name]);
+  if (missing.length > 0) {
+    throw new Error(`Missing ${missing.join(", ")}`);
+  }
+  try {
+    getServerWallet();
+  } catch {
+    throw new Error("ETH_PRIVATE_KEY is not a valid private key");
+  }
+}
+
+// Every configured contract address holds code
+async function checkContracts() {
+  const provider = getEvmProvider();
+  const addresses = new Set<string>();
+  for (const pool of listStakingPoolConfigs()) {
+    [pool.stakingContract, pool.loanToken, pool.wrappedToken].forEach(address => address && addresses.add(ethers.getAddress(address)));
+  }
+  const empty: string[] = [];
+  await Promise.all(
+    [...addresses].map(async address => {
+      if ((await provider.getCode(address)) === "0x") {
+        empty.push(address);
+      }
+    })
+  );
+  if (empty.length > 0) {
+    throw new Error(`No contract deployed at ${empty.join(", ")}`);
+  }
+}
+
+// Run every check; the server is ready when all of them pass
+export async function checkReadiness(): Promise<{ ready: boolean; checks: ReadinessCheck[] }> {
+  const { sourceChain, destinationChain } = getDeploymentConfig();
+  const checks = await Promise.all([
+    runCheck(`rpc:${sourceChain}`, checkSourceRpc),
+    runCheck(`rpc:${destinationChain}`, checkDestinationRpc),
+    runCheck("signers", checkSigners),
+    runCheck("contracts", checkContracts),
+  ]);
+  return { ready: checks.every(check => check.ok), checks };
+}
@@ -0,0 +1,323 @@
+import fs from "fs";
+import path from "path";
+import { ethers } from "ethers";
+import { listStakingPoolConfigs } from "./config";
+import { ERC20_ABI } from "./cross-chain-staking";
+import { getEvmProvider } from "./evm";
+
+// Indexes CrossChainStaking events so positions can be rebuilt from chain data instead of one getUserStake call per address
+
+const STAKING_EVENTS_ABI = [
+  "event Staked(address indexed user, uint256 amount, uint256 loanedAmount)",
+  "event Unstaked(address indexed user, uint256 amount, uint256 burnedAmount)",
+  "event LoanRatioUpdated(uint256 oldRatio, uint256 newRatio)",
+  "function stakingToken() external view returns (address)",
+];
+
+const stakingInterface = new ethers.Interface(STAKING_EVENTS_ABI);
+const EVENT_TOPICS = ["Staked", "Unstaked", "LoanRatioUpdated"].map(name => stakingInterface.getEvent(name)!.topicHash);
+
+export type StakingEventName = "Staked" | "Unstaked" | "LoanRatioUpdated";
+
+// One decoded event, amounts in base units
+export interface StakingEvent {
+  name: StakingEventName;
+  // Staked / Unstaked
+  user?: string;
+  amount?: string;
+  loanedAmount?: string;
+  burnedAmount?: string;
+  // LoanRatioUpdated
+  oldRatio?: string;
+  newRatio?: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+}
+
+interface ContractIndex {
+  address: string;
+  // Staking token decimals, read from the contract on first sync
+  decimals?: number;
+  startBlock: number;
+  // Last block whose events are included, and its hash to detect reorgs
+  lastBlock: number;
+  lastBlockHash?: string;
+  // Recently indexed tips, oldest first, to find where a reorg forked off
+  recentBlocks?: { number: number; hash: string }[];
+  events: StakingEvent[];
+}
+
+// Index location, kept next to the job store
+const INDEX_FILE = process.env.INDEX_FILE || path.join(__dirname, "../data/staking-index.json");
+
+// Indexed tips kept per contract
+const RECENT_BLOCKS = 128;
+
+// Blocks per eth_getLogs request, public RPCs reject large ranges
+const BATCH_SIZE = Number(process.env.INDEXER_BATCH_SIZE || 2000);
+
+const POLL_INTERVAL = Number(process.env.INDEXER_POLL_INTERVAL_MS || 12_000);
+
+let indexes: Record<string, ContractIndex> | null = null;
+
+function loadIndexes(): Record<string, ContractIndex> {
+  if (!indexes) {
+    indexes = fs.existsSync(INDEX_FILE) ? JSON.parse(fs.readFileSync(INDEX_FILE, "utf8")) : {};
+  }
+  return indexes!;
+}
+
+// Contracts added to the config since the last run start from their startBlock. Without one they
+// start at the head: backfilling from genesis would take thousands of getLogs calls.
+function addNewContracts(head: number) {
+  const indexes = loadIndexes();
+  for (const pool of listStakingPoolConfigs()) {
+    const key = pool.stakingContract.toLowerCase();
+    if (!indexes[key]) {
+      if (pool.startBlock === undefined) {
+        console.warn(`No startBlock configured for staking contract ${pool.stakingContract}, indexing from block ${head} on`);
+      }
+      const startBlock = pool.startBlock ?? head;
+      indexes[key] = { address: pool.stakingContract, startBlock, lastBlock: startBlock - 1, events: [] };
+    }
+  }
+}
+
+// Write to a temp file and rename it, like the job store
+function saveIndexes() {
+  fs.mkdirSync(path.dirname(INDEX_FILE), { recursive: true });
+  const tmpFile = `${INDEX_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify(loadIndexes(), null, 2));
+  fs.renameSync(tmpFile, INDEX_FILE);
+}
+
+function getContractIndex(stakingContract: string): ContractIndex {
+  const index = loadIndexes()[stakingContract.toLowerCase()];
+  if (!index) {
+    throw new Error(`Staking contract ${stakingContract} is not indexed`);
+  }
+  return index;
+}
+
+function decodeLog(log: ethers.Log, timestamp: number): StakingEvent {
+  const parsed = stakingInterface.parseLog(log)!;
+  const base = {
+    name: parsed.name as StakingEventName,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    timestamp,
+  };
+  switch (parsed.name) {
+    case "Staked":
+      return { ...base, user: parsed.args.user, amount: parsed.args.amount.toString(), loanedAmount: parsed.args.loanedAmount.toString() };
+    case "Unstaked":
+      return { ...base, user: parsed.args.user, amount: parsed.args.amount.toString(), burnedAmount: parsed.args.burnedAmount.toString() };
+    default:
+      return { ...base, oldRatio: parsed.args.oldRatio.toString(), newRatio: parsed.args.newRatio.toString() };
+  }
+}
+
+// Mark a block as the last one indexed
+function setTip(index: ContractIndex, number: number, hash: string | undefined) {
+  index.lastBlock = number;
+  index.lastBlockHash = hash;
+  if (hash) {
+    index.recentBlocks = [...(index.recentBlocks ?? []), { number, hash }].slice(-RECENT_BLOCKS);
+  }
+}
+
+// When the indexed tip was reorged away, rewind to the newest indexed block still on the canonical
+// chain and drop every event after it. The recent tips and the blocks with events are checked,
+// newest first; when none of them is canonical the contract is indexed again from its start block.
+async function handleReorg(provider: ethers.Provider, index: ContractIndex) {
+  if (!index.lastBlockHash || index.lastBlock < index.startBlock) {
+    return;
+  }
+  const block = await provider.getBlock(index.lastBlock);
+  if (block && block.hash === index.lastBlockHash) {
+    return;
+  }
+
+  const known = new Map<number, string>();
+  for (const event of index.events) {
+    known.set(event.blockNumber, event.blockHash);
+  }
+  for (const recent of index.recentBlocks ?? []) {
+    known.set(recent.number, recent.hash);
+  }
+
+  let ancestor: { number: number; hash: string } | undefined;
+  for (const number of [...known.keys()].filter(number => number < index.lastBlock).sort((a, b) => b - a)) {
+    if ((await provider.getBlock(number))?.hash === known.get(number)) {
+      ancestor = { number, hash: known.get(number)! };
+      break;
+    }
+  }
+
+  const rewindTo = ancestor?.number ?? index.startBlock - 1;
+  if (ancestor) {
+    console.log(`Reorg detected at block ${index.lastBlock} for ${index.address}, rewinding to block ${rewindTo}`);
+  } else {
+    console.error(`Reorg at block ${index.lastBlock} for ${index.address} forked below every indexed block, indexing again from block ${index.startBlock}`);
+  }
+  index.events = index.events.filter(event => event.blockNumber <= rewindTo);
+  index.recentBlocks = (index.recentBlocks ?? []).filter(recent => recent.number <= rewindTo);
+  index.lastBlock = rewindTo;
+  index.lastBlockHash = ancestor?.hash;
+}
+
+async function syncContract(provider: ethers.Provider, index: ContractIndex, head: number) {
+  if (index.decimals === undefined) {
+    const stakingContract = new ethers.Contract(index.address, STAKING_EVENTS_ABI, provider);
+    const stakingToken = new ethers.Contract(await stakingContract.stakingToken(), ERC20_ABI, provider);
+    index.decimals = Number(await stakingToken.decimals());
+  }
+
+  await handleReorg(provider, index);
+
+  while (index.lastBlock < head) {
+    const fromBlock = index.lastBlock + 1;
+    const toBlock = Math.min(head, fromBlock + BATCH_SIZE - 1);
+    const logs = await provider.getLogs({ address: index.address, fromBlock, toBlock, topics: [EVENT_TOPICS] });
+
+    // One block lookup per block with events, for the timestamps
+    const timestamps = new Map<number, number>();
+    for (const log of logs) {
+      if (!timestamps.has(log.blockNumber)) {
+        timestamps.set(log.blockNumber, (await provider.getBlock(log.blockNumber))?.timestamp ?? 0);
+      }
+    }
+
+    index.events.push(...logs.map(log => decodeLog(log, timestamps.get(log.blockNumber)!)));
+    setTip(index, toBlock, (await provider.getBlock(toBlock))?.hash ?? undefined);
+    saveIndexes();
+
+    if (logs.length > 0) {
+      console.log(`Indexed ${logs.length} staking event(s) for ${index.address} up to block ${toBlock}`);
+    }
+  }
+}
+
+// Bring every configured staking contract up to the current head
+export async function syncIndex() {
+  const provider = getEvmProvider();
+  const head = await provider.getBlockNumber();
+  addNewContracts(head);
+  for (const index of Object.values(loadIndexes())) {
+    await syncContract(provider, index, head);
+  }
+}
+
+// Backfill, then follow new blocks; returns a function that stops following
+export function startIndexer(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const poll = async () => {
+    try {
+      await syncIndex();
+    } catch (error) {
+      console.error("Staking event indexer failed, retrying:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(poll, POLL_INTERVAL);
+    }
+  };
+  poll();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+// Replay Staked / Unstaked events in order, calling back with the position after each one
+function replayPositions(
+  events: StakingEvent[],
+  onEvent?: (event: StakingEvent, position: { stakedAmount: bigint; loanedAmount: bigint }) => void
+) {
+  const positions = new Map<string, { stakedAmount: bigint; loanedAmount: bigint }>();
+  let totalStaked = 0n;
+  let loanRatio: string | undefined;
+
+  for (const event of events) {
+    if (event.name === "LoanRatioUpdated") {
+      loanRatio = event.newRatio;
+      continue;
+    }
+    const user = event.user!.toLowerCase();
+    const position = positions.get(user) ?? { stakedAmount: 0n, loanedAmount: 0n };
+    if (event.name === "Staked") {
+      position.stakedAmount += BigInt(event.amount!);
+      position.loanedAmount += BigInt(event.loanedAmount!);
+      totalStaked += BigInt(event.amount!);
+    } else {
+      position.stakedAmount -= BigInt(event.amount!);
+      position.loanedAmount -= BigInt(event.burnedAmount!);
+      totalStaked -= BigInt(event.amount!);
+    }
+    positions.set(user, position);
+    onEvent?.(event, position);
+  }
+
+  return { positions, totalStaked, loanRatio };
+}
+
+// Current position of every address that ever staked, and the contract's totalStaked
+export function getIndexedPositions(stakingContract: string) {
+  const index = getContractIndex(stakingContract);
+  const decimals = index.decimals ?? 18;
+  const { positions, totalStaked, loanRatio } = replayPositions(index.events);
+
+  return {
+    stakingContract: index.address,
+    indexedBlock: index.lastBlock,
+    totalStaked: ethers.formatUnits(totalStaked, decimals),
+    // Only known once a LoanRatioUpdated event has been indexed
+    loanRatio,
+    positions: [...positions.entries()]
+      .filter(([, position]) => position.stakedAmount > 0n || position.loanedAmount > 0n)
+      .map(([address, position]) => ({
+        address: ethers.getAddress(address),
+        stakedAmount: ethers.formatUnits(position.stakedAmount, decimals),
+        loanedAmount: ethers.formatUnits(position.loanedAmount, 18),
+      })),
+  };
+}
+
+// Staked / Unstaked events of one address, each with the position it left behind
+export function getIndexedUserEvents(stakingContract: string, address: string) {
+  const index = getContractIndex(stakingContract);
+  const decimals = index.decimals ?? 18;
+  const user = address.toLowerCase();
+  const events: object[] = [];
+
+  replayPositions(index.events, (event, position) => {
+    if (event.user!.toLowerCase() !== user) {
+      return;
+    }
+    events.push({
+      name: event.name,
+      amount: ethers.formatUnits(event.amount!, decimals),
+      ...(event.loanedAmount !== undefined ? { loanedAmount: ethers.formatUnits(event.loanedAmount, 18) } : {}),
+      ...(event.burnedAmount !== undefined ? { burnedAmount: ethers.formatUnits(event.burnedAmount, 18) } : {}),
+      stakedAfter: ethers.formatUnits(position.stakedAmount, decimals),
+      loanedAfter: ethers.formatUnits(position.loanedAmount, 18),
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      timestamp: new Date(event.timestamp * 1000).toISOString(),
+    });
+  });
+
+  return {
+    stakingContract: index.address,
+    indexedBlock: index.lastBlock,
+    address: ethers.getAddress(address),
+    events,
+  };
+}
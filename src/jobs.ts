@@ -0,0 +1,373 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import {
+  ExitPhase,
+  PhaseDetails,
+  StakeOptions,
+  StakePhase,
+  TransferOptions,
+  completeCrossChainTransfer,
+  completeExitTransfer,
+  executeCrossChainTransfer,
+  executeExitTransfer,
+  executeStaking,
+  executeUnstake,
+  getServerEvmAddress,
+  waitForArrival,
+} from "./cross-chain-staking";
+import { ErrorCode, toAppError } from "./errors";
+import { notify } from "./notifications";
+import { runOperation } from "./progress";
+import { withWalletLock } from "./wallet-queue";
+
+export type JobStatus = "pending" | "running" | "completed" | "failed";
+
+// "stake" bridges SOL to Sepolia and stakes it, "exit" unstakes and bridges it back to Solana
+export type JobType = "stake" | "exit";
+
+export type JobPhase = StakePhase | ExitPhase;
+
+export interface Job {
+  id: string;
+  // Jobs stored before exits existed have no type and are stake jobs
+  type?: JobType;
+  status: JobStatus;
+  // Last completed phase, undefined until the first transaction has been confirmed
+  phase?: JobPhase;
+  // Amount bridged; unknown for recovered transfers and exits until read from chain
+  amount?: string;
+  // Source chain token ("native" or a mint/contract address), "native" when unset
+  sourceToken?: string;
+  // Let the Wormhole relayer redeem the transfer, paying it a fee out of the amount
+  automatic?: boolean;
+  // Automatic transfers only: source token amount swapped for destination gas
+  nativeGas?: string;
+  // Amount the destination receives after relayer fees, when it differs from amount
+  destinationAmount?: string;
+  // Exit jobs only: wrapped SOL to unstake, the whole position when unset
+  unstakeAmount?: string;
+  burnedAmount?: string;
+  // Set to false to stop once the transfer has been redeemed
+  stake?: boolean;
+  // Wrapped SOL to stake, defaults to the amount delivered by the transfer
+  stakeAmount?: string;
+  // Stake the whole wrapped SOL balance instead of stakeAmount
+  stakeAll?: boolean;
+  // How long to wait for the VAA, in milliseconds
+  attestationTimeout?: number;
+  sourceAddress?: string;
+  destinationAddress?: string;
+  wormholeHash?: string;
+  // Transaction hashes (or VAA ids for "attested") recorded per completed phase
+  txHashes: Partial<Record<JobPhase, string[]>>;
+  stakedAmount?: string;
+  loanedAmount?: string;
+  error?: string;
+  // Stable code of the error, see errors.ts
+  errorCode?: ErrorCode;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Local job store location, kept outside src/ and dist/ so rebuilds don't wipe it
+const JOBS_FILE = process.env.JOBS_FILE || path.join(__dirname, "../data/jobs.json");
+
+// In-memory copy of the store, loaded lazily from disk
+let jobs: Map<string, Job> | null = null;
+
+// Jobs currently executing in this process
+const runningJobs = new Set<string>();
+
+function loadJobs(): Map<string, Job> {
+  if (!jobs) {
+    jobs = new Map();
+    if (fs.existsSync(JOBS_FILE)) {
+      const stored: Job[] = JSON.parse(fs.readFileSync(JOBS_FILE, "utf8"));
+      stored.forEach(job => jobs!.set(job.id, job));
+    }
+  }
+  return jobs;
+}
+
+// Write the whole store to a temp file and rename it, so a crash never leaves a truncated file
+function saveJobs() {
+  fs.mkdirSync(path.dirname(JOBS_FILE), { recursive: true });
+  const tmpFile = `${JOBS_FILE}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify([...loadJobs().values()], null, 2));
+  fs.renameSync(tmpFile, JOBS_FILE);
+}
+
+function updateJob(job: Job, changes: Partial<Job>) {
+  Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+  saveJobs();
+}
+
+export function getJob(id: string): Job | undefined {
+  return loadJobs().get(id);
+}
+
+export function listJobs(): Job[] {
+  return [...loadJobs().values()];
+}
+
+// Job that sent, or is recovering, the transfer with this source transaction hash
+export function findJobByWormholeHash(wormholeHash: string): Job | undefined {
+  return listJobs().find(job => job.wormholeHash === wormholeHash);
+}
+
+// Create a cross-chain staking job and persist it before any transaction is sent
+export function createJob(
+  amount: string,
+  stakeOptions: StakeOptions = {},
+  transferOptions: Omit<TransferOptions, "token"> = {}
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    status: "pending",
+    amount,
+    sourceToken: stakeOptions.token,
+    automatic: transferOptions.automatic,
+    nativeGas: transferOptions.nativeGas,
+    stakeAmount: stakeOptions.amount,
+    stakeAll: stakeOptions.stakeAll,
+    txHashes: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+  loadJobs().set(job.id, job);
+  saveJobs();
+  return job;
+}
+
+// Create a job that picks up a stuck transfer from its Solana source transaction hash
+export function createRecoveryJob(
+  wormholeHash: string,
+  options: { stake?: boolean; attestationTimeout?: number } & StakeOptions = {}
+): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    status: "pending",
+    phase: "initiated",
+    wormholeHash,
+    stake: options.stake ?? false,
+    stakeAmount: options.amount,
+    stakeAll: options.stakeAll,
+    attestationTimeout: options.attestationTimeout,
+    txHashes: { initiated: [wormholeHash] },
+    createdAt: now,
+    updatedAt: now,
+  };
+  loadJobs().set(job.id, job);
+  saveJobs();
+  return job;
+}
+
+// Create a job that unstakes and bridges the wrapped SOL back to Solana
+export function createExitJob(unstakeAmount?: string, sourceToken?: string): Job {
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    type: "exit",
+    status: "pending",
+    unstakeAmount,
+    sourceToken,
+    txHashes: {},
+    createdAt: now,
+    updatedAt: now,
+  };
+  loadJobs().set(job.id, job);
+  saveJobs();
+  return job;
+}
+
+// Run a job from its last completed phase until it is staked or fails
+export async function runJob(id: string) {
+  const job = getJob(id);
+  if (!job) {
+    throw new Error(`Job not found: ${id}`);
+  }
+  if (job.status === "completed" || runningJobs.has(id)) {
+    return job;
+  }
+
+  runningJobs.add(id);
+  updateJob(job, { status: "pending", error: undefined, errorCode: undefined });
+
+  // Persist every completed phase together with its transaction hashes.
+  // EVM transfers may include an approval first, so the transfer itself is the last hash.
+  // The unstaked amount of an exit is what gets bridged back, so a resume can send it.
+  const onPhase = (phase: JobPhase, txids: string[], details: PhaseDetails) => {
+    updateJob(job, {
+      phase,
+      txHashes: { ...job.txHashes, [phase]: txids },
+      ...(phase === "initiated" ? { wormholeHash: txids[txids.length - 1] } : {}),
+      ...(phase === "unstaked" ? { amount: details.amount } : {}),
+    });
+  };
+
+  try {
+    // Jobs share the server wallet, each waits until the ones before it are done
+    await withWalletLock(getServerEvmAddress(), { id, type: job.type ?? "stake" }, () => {
+      updateJob(job, { status: "running" });
+      // The job id doubles as the operation id of its progress events
+      return runOperation(id, job.type ?? "stake", () =>
+        job.type === "exit" ? runExitJob(job, onPhase) : runStakeJob(job, onPhase)
+      );
+    });
+    updateJob(job, { status: "completed" });
+  } catch (error: any) {
+    console.error(`Job ${id} failed:`, error);
+    updateJob(job, { status: "failed", error: error?.message || String(error), errorCode: toAppError(error).code });
+  } finally {
+    runningJobs.delete(id);
+  }
+
+  notifyJobOutcome(job);
+  return job;
+}
+
+// Tell the configured channels how a job ended. A job that failed after sending its transfer but
+// before the VAA arrived is reported as stuck, it only needs to be resumed.
+function notifyJobOutcome(job: Job) {
+  const name = job.type === "exit" ? "Exit" : "Cross-chain stake";
+  const details = {
+    jobId: job.id,
+    type: job.type ?? "stake",
+    amount: job.amount,
+    sourceToken: job.sourceToken,
+    phase: job.phase,
+    wormholeHash: job.wormholeHash,
+    stakedAmount: job.stakedAmount,
+    loanedAmount: job.loanedAmount,
+    burnedAmount: job.burnedAmount,
+    error: job.error,
+    errorCode: job.errorCode,
+  };
+
+  if (job.status === "completed") {
+    notify("job.completed", `${name} completed`, `Job ${job.id} completed.`, details);
+  } else if (job.phase === "initiated") {
+    notify(
+      "attestation.stuck",
+      `${name} is waiting for its attestation`,
+      `Transfer ${job.wormholeHash} was sent but its VAA did not arrive in time. Resume job ${job.id} with POST /api/jobs/${job.id}/resume once it is available.`,
+      details
+    );
+  } else {
+    notify("job.failed", `${name} failed`, `Job ${job.id} failed: ${job.error}`, details);
+  }
+}
+
+// Bridge SOL to Sepolia, then stake it
+async function runStakeJob(job: Job, onPhase: (phase: JobPhase, txids: string[], details: PhaseDetails) => void) {
+  // Destination balance before redemption, only known when redeemed during this run
+  let balanceBefore: bigint | undefined;
+
+  if (!job.phase) {
+    // Nothing sent yet, start the transfer from scratch
+    const crossChainResult = await executeCrossChainTransfer(job.amount!, onPhase, {
+      token: job.sourceToken,
+      automatic: job.automatic,
+      nativeGas: job.nativeGas,
+    });
+    updateJob(job, {
+      sourceAddress: crossChainResult.sourceAddress,
+      destinationAddress: crossChainResult.destinationAddress,
+      destinationAmount: crossChainResult.destinationAmount,
+    });
+    balanceBefore = crossChainResult.balanceBefore;
+  } else if (job.phase === "initiated" || job.phase === "attested") {
+    // Source transaction exists, rebuild the transfer from it and redeem
+    const result = await completeCrossChainTransfer(job.wormholeHash!, onPhase, job.attestationTimeout);
+    updateJob(job, {
+      amount: result.amount,
+      sourceToken: result.sourceToken,
+      automatic: result.automatic,
+      destinationAddress: result.destinationAddress,
+      destinationAmount: result.destinationAmount,
+    });
+    balanceBefore = result.balanceBefore;
+  }
+
+  if (!job.phase || job.phase === "initiated" || job.phase === "attested") {
+    throw new Error(`Cross-chain transfer did not complete, last completed phase: ${job.phase ?? "none"}`);
+  }
+
+  // A crash right after the stake was confirmed leaves nothing more to send
+  if (job.stake !== false && job.phase !== "staked") {
+    if (!job.destinationAddress) {
+      throw new Error("Destination address is unknown, cannot stake");
+    }
+
+    // Make sure the redeemed wrapped SOL is in the wallet before staking it
+    if (job.phase === "redeemed") {
+      const arrival = await waitForArrival(job.destinationAddress, job.amount!, {
+        redeemTxids: job.txHashes.redeemed,
+        balanceBefore,
+        token: job.sourceToken,
+        destinationAmount: job.destinationAmount,
+      });
+      if (!job.stakeAll && job.stakeAmount === undefined) {
+        updateJob(job, { stakeAmount: arrival.received });
+      }
+    }
+
+    const stakeOptions: StakeOptions = job.stakeAll
+      ? { stakeAll: true, token: job.sourceToken }
+      : { amount: job.stakeAmount, token: job.sourceToken };
+    const stakingResult = await executeStaking(job.destinationAddress, stakeOptions, onPhase);
+    if (!stakingResult) {
+      throw new Error("No Wrapped SOL to stake, please ensure cross-chain transfer was successful");
+    }
+    updateJob(job, {
+      stakedAmount: stakingResult.stakedAmount,
+      loanedAmount: stakingResult.loanedAmount,
+    });
+  }
+}
+
+// Unstake, then bridge the withdrawn wrapped SOL back to Solana
+async function runExitJob(job: Job, onPhase: (phase: JobPhase, txids: string[], details: PhaseDetails) => void) {
+  if (!job.phase) {
+    const unstakeResult = await executeUnstake(job.unstakeAmount, onPhase, job.sourceToken);
+    if (!unstakeResult) {
+      throw new Error("No stakes to unstake");
+    }
+    updateJob(job, {
+      burnedAmount: unstakeResult.burnedAmount,
+      stakedAmount: unstakeResult.newStakedAmount,
+      loanedAmount: unstakeResult.newLoanedAmount,
+    });
+  }
+
+  if (job.phase === "unstaked") {
+    if (!job.amount) {
+      throw new Error(`Job ${job.id} was unstaked but its withdrawn amount was not saved, so it cannot be bridged back automatically`);
+    }
+    const transferResult = await executeExitTransfer(job.amount, onPhase, job.attestationTimeout, job.sourceToken);
+    updateJob(job, {
+      sourceAddress: transferResult.sourceAddress,
+      destinationAddress: transferResult.destinationAddress,
+    });
+  } else if (job.phase === "initiated" || job.phase === "attested") {
+    const transferResult = await completeExitTransfer(job.wormholeHash!, onPhase, job.attestationTimeout);
+    updateJob(job, { destinationAddress: transferResult.destinationAddress });
+  }
+
+  if (job.phase !== "redeemed") {
+    throw new Error(`Transfer back to Solana did not complete, last completed phase: ${job.phase ?? "none"}`);
+  }
+}
+
+// Continue every job that was interrupted by a server stop or crash
+export function resumeUnfinishedJobs() {
+  const unfinished = listJobs().filter(job => job.status === "pending" || job.status === "running");
+  unfinished.forEach(job => {
+    console.log(`Resuming job ${job.id} from phase: ${job.phase ?? "none"}`);
+    runJob(job.id);
+  });
+  return unfinished.length;
+}
@@ -0,0 +1,168 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import { Chain } from "@wormhole-foundation/sdk";
+import { getDeploymentConfig } from "./config";
+import { getCurrentOperationId } from "./progress";
+
+// Append-only record of every transfer, stake and unstake sent by this app
+
+export type LedgerEntryType = "transfer" | "stake" | "unstake";
+
+export type LedgerEntryStatus = "completed" | "failed";
+
+export interface LedgerTransaction {
+  chain: Chain;
+  hash: string;
+  // What the transaction did: initiate, redeem, approve, stake, unstake
+  label: string;
+}
+
+export interface LedgerEntry {
+  id: string;
+  type: LedgerEntryType;
+  status: LedgerEntryStatus;
+  // Transfers only
+  fromChain?: Chain;
+  toChain?: Chain;
+  // Amount moved, in the token's own units
+  amount?: string;
+  // Source token ("native" or a mint/contract address)
+  token?: string;
+  // Wallet that sent the transactions
+  address?: string;
+  transactions: LedgerTransaction[];
+  // Loan tokens burned by an unstake
+  burnedAmount?: string;
+  error?: string;
+  // Job or operation the entry belongs to, when run as one
+  operationId?: string;
+  timestamp: string;
+}
+
+export interface LedgerQuery {
+  type?: LedgerEntryType;
+  status?: LedgerEntryStatus;
+  // ISO dates or timestamps, inclusive
+  from?: string;
+  to?: string;
+  // 1-based
+  page?: number;
+  pageSize?: number;
+}
+
+// Ledger location, one JSON entry per line so an append never rewrites earlier entries
+const LEDGER_FILE = process.env.LEDGER_FILE || path.join(__dirname, "../data/ledger.jsonl");
+
+export const MAX_PAGE_SIZE = 100;
+
+// Append an entry; a ledger write failure is logged but never fails the operation it records
+export function recordLedgerEntry(entry: Omit<LedgerEntry, "id" | "operationId" | "timestamp">): LedgerEntry | undefined {
+  const recorded: LedgerEntry = {
+    id: randomUUID(),
+    ...entry,
+    operationId: getCurrentOperationId(),
+    timestamp: new Date().toISOString(),
+  };
+  try {
+    fs.mkdirSync(path.dirname(LEDGER_FILE), { recursive: true });
+    fs.appendFileSync(LEDGER_FILE, JSON.stringify(recorded) + "\n");
+    return recorded;
+  } catch (error) {
+    console.error("Failed to write ledger entry:", error);
+    return undefined;
+  }
+}
+
+function readLedger(): LedgerEntry[] {
+  if (!fs.existsSync(LEDGER_FILE)) {
+    return [];
+  }
+  return fs
+    .readFileSync(LEDGER_FILE, "utf8")
+    .split("\n")
+    .flatMap((line, index) => {
+      if (line.trim() === "") {
+        return [];
+      }
+      // A line cut short by a crash mid-write loses that entry, not the whole history
+      try {
+        return [JSON.parse(line)];
+      } catch {
+        console.error(`Skipping unreadable line ${index + 1} of ${LEDGER_FILE}`);
+        return [];
+      }
+    });
+}
+
+// Every entry matching the query's filters, newest first
+export function findLedgerEntries(query: LedgerQuery = {}): LedgerEntry[] {
+  const from = query.from ? new Date(query.from).getTime() : -Infinity;
+  // A bare date as the upper bound covers that whole day
+  const to = !query.to ? Infinity
+    : /^\d{4}-\d{2}-\d{2}$/.test(query.to) ? new Date(query.to).getTime() + 24 * 60 * 60 * 1000 - 1
+    : new Date(query.to).getTime();
+
+  return readLedger()
+    .filter(entry => !query.type || entry.type === query.type)
+    .filter(entry => !query.status || entry.status === query.status)
+    .filter(entry => {
+      const time = new Date(entry.timestamp).getTime();
+      return time >= from && time <= to;
+    })
+    .reverse();
+}
+
+// One page of the entries matching the query
+export function queryLedger(query: LedgerQuery = {}) {
+  const page = Math.max(1, query.page ?? 1);
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, query.pageSize ?? 20));
+  const matching = findLedgerEntries(query);
+
+  return {
+    entries: matching.slice((page - 1) * pageSize, page * pageSize),
+    total: matching.length,
+    page,
+    pageSize,
+  };
+}
+
+// Block explorer page of a transaction on the configured network
+export function getExplorerUrl(chain: Chain, hash: string): string {
+  const mainnet = getDeploymentConfig().network === "Mainnet";
+  switch (chain) {
+    case "Solana":
+      return `https://explorer.solana.com/tx/${hash}${mainnet ? "" : "?cluster=devnet"}`;
+    case "Ethereum":
+      return `https://${mainnet ? "" : "sepolia."}etherscan.io/tx/${hash}`;
+    case "Sepolia":
+      return `https://sepolia.etherscan.io/tx/${hash}`;
+    default:
+      return `https://wormholescan.io/#/tx/${hash}${mainnet ? "" : "?network=Testnet"}`;
+  }
+}
+
+// Quote a CSV field when it contains a separator, quote or newline
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function ledgerToCsv(entries: LedgerEntry[]): string {
+  const header = ["timestamp", "type", "status", "fromChain", "toChain", "amount", "token", "address", "burnedAmount", "transactions", "error", "operationId"];
+  const rows = entries.map(entry => [
+    entry.timestamp,
+    entry.type,
+    entry.status,
+    entry.fromChain,
+    entry.toChain,
+    entry.amount,
+    entry.token,
+    entry.address,
+    entry.burnedAmount,
+    entry.transactions.map(tx => `${tx.label}:${tx.chain}:${tx.hash}`).join(" "),
+    entry.error,
+    entry.operationId,
+  ].map(csvField).join(","));
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
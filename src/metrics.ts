@@ -0,0 +1,45 @@
+import { Counter, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+// Prometheus metrics served on /metrics: transfers, attestation waits, redeem / stake / unstake
+// durations, RPC retries and RPC errors per chain, plus the default Node.js process metrics.
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry });
+
+export const transfersTotal = new Counter({
+  name: "ccs_transfers_total",
+  help: "Token bridge transfers by direction and outcome",
+  labelNames: ["from_chain", "to_chain", "status"] as const,
+  registers: [registry],
+});
+
+export const attestationWaitSeconds = new Histogram({
+  name: "ccs_attestation_wait_seconds",
+  help: "Time spent waiting for a transfer's VAA, by outcome (ok, timeout, error)",
+  labelNames: ["from_chain", "status"] as const,
+  // Solana VAAs take seconds, Ethereum ones wait for finality
+  buckets: [5, 15, 30, 60, 120, 300, 600, 900, 1200, 1800, 3600],
+  registers: [registry],
+});
+
+export const operationDurationSeconds = new Histogram({
+  name: "ccs_operation_duration_seconds",
+  help: "Duration of redeem, stake and unstake operations, by outcome",
+  labelNames: ["operation", "status"] as const,
+  buckets: [1, 2, 5, 10, 20, 30, 60, 120, 300, 600],
+  registers: [registry],
+});
+
+export const rpcRetriesTotal = new Counter({
+  name: "ccs_rpc_retries_total",
+  help: "Retried RPC calls on the destination chain: reads and transaction broadcasts",
+  labelNames: ["operation"] as const,
+  registers: [registry],
+});
+
+export const rpcErrorsTotal = new Counter({
+  name: "ccs_rpc_errors_total",
+  help: "Failed RPC requests per chain",
+  labelNames: ["chain"] as const,
+  registers: [registry],
+});
@@ -0,0 +1,284 @@
+import fs from "fs";
+import path from "path";
+import { createHash, createHmac, randomUUID } from "crypto";
+import nodemailer from "nodemailer";
+
+// Outbound notifications of operation outcomes: signed HTTP webhooks, Slack incoming webhooks and
+// email. Each delivery is persisted, retried with backoff and kept in a delivery log. Notifying
+// never fails or delays the operation it reports on.
+
+export type NotificationEvent =
+  | "job.completed"
+  | "job.failed"
+  | "attestation.stuck"
+  | "unstake.completed"
+  | "unstake.failed"
+  | "position.health"
+  | "test";
+
+export interface Notification {
+  id: string;
+  event: NotificationEvent;
+  title: string;
+  message: string;
+  // Job, operation or position the notification is about
+  details: Record<string, unknown>;
+  timestamp: string;
+}
+
+export type ChannelType = "webhook" | "slack" | "email";
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface Delivery {
+  id: string;
+  channel: ChannelType;
+  // Identifies the configured channel, a hash of its URL or recipients
+  channelId: string;
+  // Webhook host or email recipients, never the full URL: webhook paths often hold a secret
+  target: string;
+  status: DeliveryStatus;
+  attempts: number;
+  lastError?: string;
+  notification: Notification;
+  createdAt: string;
+  updatedAt: string;
+  deliveredAt?: string;
+}
+
+interface Channel {
+  id: string;
+  type: ChannelType;
+  target: string;
+  send: (notification: Notification, deliveryId: string) => Promise<void>;
+}
+
+// Delivery log location, kept next to the job store
+const DELIVERIES_FILE = process.env.NOTIFICATIONS_FILE || path.join(__dirname, "../data/notifications.json");
+
+// Older deliveries are dropped from the log
+const MAX_DELIVERIES = 500;
+
+const SEND_TIMEOUT_MS = 10_000;
+
+let deliveries: Delivery[] | null = null;
+
+function loadDeliveries(): Delivery[] {
+  if (!deliveries) {
+    deliveries = fs.existsSync(DELIVERIES_FILE) ? JSON.parse(fs.readFileSync(DELIVERIES_FILE, "utf8")) : [];
+  }
+  return deliveries!;
+}
+
+// Write the log to a temp file and rename it, as the job store does; a failed write is only logged
+function saveDeliveries() {
+  try {
+    fs.mkdirSync(path.dirname(DELIVERIES_FILE), { recursive: true });
+    const tmpFile = `${DELIVERIES_FILE}.tmp`;
+    fs.writeFileSync(tmpFile, JSON.stringify(loadDeliveries(), null, 2));
+    fs.renameSync(tmpFile, DELIVERIES_FILE);
+  } catch (error) {
+    console.error("Failed to write notification delivery log:", error);
+  }
+}
+
+function updateDelivery(delivery: Delivery, changes: Partial<Delivery>) {
+  Object.assign(delivery, changes, { updatedAt: new Date().toISOString() });
+  saveDeliveries();
+}
+
+function hostOf(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return "(invalid URL)";
+  }
+}
+
+function channelId(type: ChannelType, destination: string): string {
+  return createHash("sha256").update(`${type}:${destination}`).digest("hex").slice(0, 16);
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string> = {}) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body,
+    signal: AbortSignal.timeout(SEND_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status} ${response.statusText}`.trim());
+  }
+}
+
+// The notification as JSON. With WEBHOOK_SECRET set, X-Signature is
+// sha256=HMAC-SHA256(secret, "<X-Timestamp>.<body>") in hex.
+function webhookChannel(url: string): Channel {
+  return {
+    id: channelId("webhook", url),
+    type: "webhook",
+    target: hostOf(url),
+    send: async (notification, deliveryId) => {
+      const body = JSON.stringify(notification);
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const headers: Record<string, string> = {
+        "X-Event": notification.event,
+        "X-Delivery": deliveryId,
+        "X-Timestamp": timestamp,
+      };
+      const secret = process.env.WEBHOOK_SECRET;
+      if (secret) {
+        headers["X-Signature"] = `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+      }
+      await postJson(url, body, headers);
+    },
+  };
+}
+
+function detailLines(notification: Notification): string[] {
+  return Object.entries(notification.details)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(([key, value]) => `${key}: ${typeof value === "object" ? JSON.stringify(value) : value}`);
+}
+
+// Slack incoming webhook payload, also accepted by Mattermost and Discord's /slack endpoint
+function slackChannel(url: string): Channel {
+  return {
+    id: channelId("slack", url),
+    type: "slack",
+    target: hostOf(url),
+    send: async notification => {
+      const details = detailLines(notification);
+      const text = `*${notification.title}*\n${notification.message}${details.length > 0 ? `\n\`\`\`${details.join("\n")}\`\`\`` : ""}`;
+      await postJson(url, JSON.stringify({ text }));
+    },
+  };
+}
+
+function emailChannel(smtpUrl: string, to: string): Channel {
+  const transport = nodemailer.createTransport(smtpUrl);
+  return {
+    id: channelId("email", `${smtpUrl} ${to}`),
+    type: "email",
+    target: to,
+    send: async notification => {
+      await transport.sendMail({
+        from: process.env.NOTIFY_EMAIL_FROM || "cross-chain-staking@localhost",
+        to,
+        subject: `[cross-chain-staking] ${notification.title}`,
+        text: [notification.message, "", ...detailLines(notification), "", `Sent ${notification.timestamp}`].join("\n"),
+      });
+    },
+  };
+}
+
+// Channels configured in the environment: WEBHOOK_URLS, SLACK_WEBHOOK_URL, and SMTP_URL with NOTIFY_EMAIL_TO
+let channels: Channel[] | null = null;
+
+function getChannels(): Channel[] {
+  if (!channels) {
+    const env = process.env;
+    channels = [
+      ...(env.WEBHOOK_URLS ?? "").split(",").map(url => url.trim()).filter(Boolean).map(webhookChannel),
+      ...(env.SLACK_WEBHOOK_URL ? [slackChannel(env.SLACK_WEBHOOK_URL)] : []),
+      ...(env.SMTP_URL && env.NOTIFY_EMAIL_TO ? [emailChannel(env.SMTP_URL, env.NOTIFY_EMAIL_TO)] : []),
+    ];
+  }
+  return channels;
+}
+
+// Events to send, every event when NOTIFY_EVENTS is unset
+function isEnabled(event: NotificationEvent): boolean {
+  const events = process.env.NOTIFY_EVENTS;
+  return event === "test" || !events || events.split(",").map(name => name.trim()).includes(event);
+}
+
+function findChannel(delivery: Delivery): Channel | undefined {
+  return getChannels().find(channel => channel.id === delivery.channelId);
+}
+
+// One attempt; on failure the next is scheduled until NOTIFY_MAX_ATTEMPTS (default 5) have been made,
+// waiting NOTIFY_RETRY_DELAY_MS (default 5 seconds) and doubling each time
+async function attemptDelivery(delivery: Delivery) {
+  const channel = findChannel(delivery);
+  if (!channel) {
+    updateDelivery(delivery, { status: "failed", lastError: "Channel is no longer configured" });
+    return;
+  }
+
+  try {
+    await channel.send(delivery.notification, delivery.id);
+    updateDelivery(delivery, { status: "delivered", attempts: delivery.attempts + 1, lastError: undefined, deliveredAt: new Date().toISOString() });
+  } catch (error: any) {
+    const attempts = delivery.attempts + 1;
+    const lastError = error?.message || String(error);
+    if (attempts >= envNumber("NOTIFY_MAX_ATTEMPTS", 5)) {
+      console.error(`Notification ${delivery.notification.event} to ${delivery.channel} ${delivery.target} failed after ${attempts} attempt(s): ${lastError}`);
+      updateDelivery(delivery, { status: "failed", attempts, lastError });
+      return;
+    }
+    const delay = envNumber("NOTIFY_RETRY_DELAY_MS", 5000) * 2 ** (attempts - 1);
+    console.log(`Notification to ${delivery.channel} ${delivery.target} failed (${lastError}), retrying in ${delay / 1000} seconds...`);
+    updateDelivery(delivery, { attempts, lastError });
+    setTimeout(() => attemptDelivery(delivery), delay).unref();
+  }
+}
+
+// Send a notification to every configured channel; returns the deliveries created
+export function notify(event: NotificationEvent, title: string, message: string, details: Record<string, unknown> = {}): Delivery[] {
+  if (!isEnabled(event)) {
+    return [];
+  }
+  try {
+    const notification: Notification = { id: randomUUID(), event, title, message, details, timestamp: new Date().toISOString() };
+    const created = getChannels().map(channel => ({
+      id: randomUUID(),
+      channel: channel.type,
+      channelId: channel.id,
+      target: channel.target,
+      status: "pending" as const,
+      attempts: 0,
+      notification,
+      createdAt: notification.timestamp,
+      updatedAt: notification.timestamp,
+    }));
+    if (created.length === 0) {
+      return [];
+    }
+
+    const log = loadDeliveries();
+    log.push(...created);
+    log.splice(0, Math.max(log.length - MAX_DELIVERIES, 0));
+    saveDeliveries();
+    created.forEach(delivery => attemptDelivery(delivery));
+    return created;
+  } catch (error) {
+    console.error("Failed to send notification:", error);
+    return [];
+  }
+}
+
+// Retry deliveries left pending by the previous shutdown; returns how many
+export function resumePendingDeliveries(): number {
+  const pending = loadDeliveries().filter(delivery => delivery.status === "pending");
+  pending.forEach(delivery => attemptDelivery(delivery));
+  return pending.length;
+}
+
+// Delivery log, newest first
+export function listDeliveries(filter: { status?: DeliveryStatus; limit?: number } = {}): Delivery[] {
+  return loadDeliveries()
+    .filter(delivery => !filter.status || delivery.status === filter.status)
+    .slice(-(filter.limit ?? MAX_DELIVERIES))
+    .reverse();
+}
+
+// Configured channels, for checking the setup without revealing URLs
+export function listChannels(): { type: ChannelType; target: string }[] {
+  return getChannels().map(({ type, target }) => ({ type, target }));
+}
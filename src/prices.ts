@@ -0,0 +1,83 @@
+import { ethers } from "ethers";
+import { PriceFeedConfig, getDeploymentConfig } from "./config";
+
+// USD prices of destination tokens, for valuing positions. The feeds in the deployment config are
+// used unless another source is set, e.g. a static one for local runs.
+
+// Hermes endpoint serving Pyth prices
+const PYTH_HERMES_URL = process.env.PYTH_HERMES_URL || "https://hermes.pyth.network";
+
+// Prices older than this are refused rather than used to value positions
+const PRICE_MAX_AGE_SECONDS = Number(process.env.PRICE_MAX_AGE_SECONDS || 300);
+
+const PRICE_TIMEOUT_MS = 10_000;
+
+export interface PriceSource {
+  // USD price of one whole token, as a decimal string; throws when the token has no price
+  getPrice(token: string): Promise<string>;
+}
+
+// Fixed prices by token address
+export function createStaticPriceSource(prices: Record<string, string>): PriceSource {
+  const byToken = new Map(Object.entries(prices).map(([token, price]) => [token.toLowerCase(), price]));
+  return {
+    async getPrice(token) {
+      const price = byToken.get(token.toLowerCase());
+      if (price === undefined) {
+        throw new Error(`No price configured for token ${token}`);
+      }
+      return price;
+    },
+  };
+}
+
+// Latest price of a Pyth feed from Hermes
+async function fetchPythPrice(feedId: string): Promise<string> {
+  const id = feedId.replace(/^0x/, "");
+  const request = new ethers.FetchRequest(`${PYTH_HERMES_URL}/v2/updates/price/latest?ids[]=${id}`);
+  request.timeout = PRICE_TIMEOUT_MS;
+  const response = await request.send();
+  response.assertOk();
+
+  const feed = response.bodyJson?.parsed?.find((entry: any) => entry.id?.replace(/^0x/, "") === id);
+  if (!feed) {
+    throw new Error(`Pyth feed ${feedId} not found`);
+  }
+  const age = Math.floor(Date.now() / 1000) - Number(feed.price.publish_time);
+  if (age > PRICE_MAX_AGE_SECONDS) {
+    throw new Error(`Pyth feed ${feedId} is stale, last published ${age} seconds ago`);
+  }
+  // price * 10^expo, expo is negative for every USD feed
+  const expo = Number(feed.price.expo);
+  return expo < 0
+    ? ethers.formatUnits(BigInt(feed.price.price), -expo)
+    : (BigInt(feed.price.price) * 10n ** BigInt(expo)).toString();
+}
+
+// Prices from feed settings by token address: fixed amounts, or Pyth feeds
+export function createFeedPriceSource(feeds: Record<string, PriceFeedConfig>): PriceSource {
+  const byToken = new Map(Object.entries(feeds).map(([token, feed]) => [token.toLowerCase(), feed]));
+  return {
+    async getPrice(token) {
+      const feed = byToken.get(token.toLowerCase());
+      if (!feed) {
+        throw new Error(`No price feed configured for token ${token}, add it to prices in the deployment config`);
+      }
+      return feed.usd ?? fetchPythPrice(feed.pythFeedId!);
+    },
+  };
+}
+
+let source: PriceSource | null = null;
+
+export function getPriceSource(): PriceSource {
+  if (!source) {
+    source = createFeedPriceSource(getDeploymentConfig().prices ?? {});
+  }
+  return source;
+}
+
+// Replace the price source used for every valuation from now on
+export function setPriceSource(priceSource: PriceSource) {
+  source = priceSource;
+}
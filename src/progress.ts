@@ -0,0 +1,95 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { EventEmitter } from "events";
+import { Chain } from "@wormhole-foundation/sdk";
+
+// Progress events for long-running operations, streamed to clients over SSE
+
+export type ProgressEventType = "started" | "phase" | "completed" | "failed";
+
+export interface ProgressEvent {
+  // Increases by one per event, used as the SSE event id for Last-Event-ID replay
+  id: number;
+  // Job id, or the id chosen by the client for synchronous operations
+  operationId: string;
+  type: ProgressEventType;
+  // "started" only: stake, exit, unstake...
+  operation?: string;
+  // "phase" only: the phase that just completed
+  phase?: string;
+  chain?: Chain;
+  txHashes?: string[];
+  amount?: string;
+  error?: string;
+  timestamp: string;
+}
+
+// Fields set by the caller, the rest is filled in by emitProgress
+export type ProgressDetails = Omit<ProgressEvent, "id" | "operationId" | "timestamp">;
+
+// Number of past events kept in memory for replay
+const HISTORY_SIZE = Number(process.env.PROGRESS_HISTORY_SIZE || 1000);
+
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+const history: ProgressEvent[] = [];
+let lastEventId = 0;
+
+// Operation the current async call chain belongs to
+const currentOperation = new AsyncLocalStorage<string>();
+
+// Id of the operation the caller is running in, if any
+export function getCurrentOperationId(): string | undefined {
+  return currentOperation.getStore();
+}
+
+// Record an event for the current operation; outside of an operation (e.g. the CLI) nothing is emitted
+export function emitProgress(details: ProgressDetails) {
+  const operationId = currentOperation.getStore();
+  if (!operationId) {
+    return;
+  }
+
+  const event: ProgressEvent = {
+    id: ++lastEventId,
+    operationId,
+    ...details,
+    timestamp: new Date().toISOString(),
+  };
+  history.push(event);
+  if (history.length > HISTORY_SIZE) {
+    history.shift();
+  }
+  emitter.emit("progress", event);
+}
+
+// Run fn as an operation: events emitted anywhere inside it carry operationId,
+// and it is bracketed by "started" and "completed" or "failed"
+export async function runOperation<T>(operationId: string, operation: string, fn: () => Promise<T>): Promise<T> {
+  return currentOperation.run(operationId, async () => {
+    emitProgress({ type: "started", operation });
+    try {
+      const result = await fn();
+      emitProgress({ type: "completed" });
+      return result;
+    } catch (error: any) {
+      emitProgress({ type: "failed", error: error?.message || String(error) });
+      throw error;
+    }
+  });
+}
+
+// Buffered events after lastId, optionally for one operation.
+// An id from before a server restart is ahead of the counter, so everything buffered is replayed.
+export function getProgressHistory(operationId?: string, lastId: number = 0): ProgressEvent[] {
+  const since = lastId > lastEventId ? 0 : lastId;
+  return history.filter(event => event.id > since && (!operationId || event.operationId === operationId));
+}
+
+// Listen to new events, returns a function that stops listening
+export function subscribeProgress(listener: (event: ProgressEvent) => void): () => void {
+  emitter.on("progress", listener);
+  return () => {
+    emitter.off("progress", listener);
+  };
+}
@@ -0,0 +1,64 @@
+import { RECOVERY_ATTESTATION_TIMEOUT, completeCrossChainTransfer, executeStaking, waitForArrival } from "./cross-chain-staking";
+import { ConflictError } from "./errors";
+import { findJobByWormholeHash } from "./jobs";
+
+// Usage: recover-transfer <solana-txid> [--timeout <seconds>] [--stake]
+function parseArgs(argv: string[]) {
+  const args = { txid: "", timeout: RECOVERY_ATTESTATION_TIMEOUT / 1000, stake: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--stake") {
+      args.stake = true;
+    } else if (arg === "--timeout") {
+      args.timeout = Number(argv[++i]);
+      if (!(args.timeout > 0)) {
+        throw new Error("--timeout must be a positive number of seconds");
+      }
+    } else if (!args.txid) {
+      args.txid = arg;
+    } else {
+      throw new Error(`Unexpected argument: ${arg}`);
+    }
+  }
+
+  if (!args.txid) {
+    throw new Error("Usage: recover-transfer <solana-txid> [--timeout <seconds>] [--stake]");
+  }
+  return args;
+}
+
+(async function () {
+  try {
+    const { txid, timeout, stake } = parseArgs(process.argv.slice(2));
+
+    // The job that sent the transfer stakes it itself, staking it here as well would stake twice
+    const job = stake ? findJobByWormholeHash(txid) : undefined;
+    if (job) {
+      throw new ConflictError(`Transfer ${txid} belongs to job ${job.id} (${job.status}), resume the job instead of staking it here`);
+    }
+
+    // Poll for the VAA and redeem it on the destination chain
+    const result = await completeCrossChainTransfer(txid, undefined, timeout * 1000);
+    console.log(`Recovered ${result.amount} to ${result.destinationAddress}`);
+
+    if (stake) {
+      if (result.destinationAmount === undefined) {
+        throw new Error(`The amount transfer ${txid} delivers is unknown, stake it separately`);
+      }
+      await waitForArrival(result.destinationAddress, result.amount, {
+        redeemTxids: result.redeemHashes,
+        balanceBefore: result.balanceBefore,
+        token: result.sourceToken,
+        destinationAmount: result.destinationAmount,
+      });
+      // Only what this transfer delivered, not whatever else the wallet holds
+      await executeStaking(result.destinationAddress, { amount: result.destinationAmount, token: result.sourceToken });
+    }
+
+    process.exit(0);
+  } catch (error) {
+    console.error("Recovery failed:", error);
+    process.exit(1);
+  }
+})();
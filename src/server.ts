@@ -1,7 +1,58 @@
-import express, { Request, Response } from 'express';
+import express, { NextFunction, Request, Response } from 'express';
 import path from 'path';
 import { config } from 'dotenv';
-import { executeCrossChainTransfer, executeStaking, executeUnstake, getStakeInfo } from './cross-chain-staking';
+import { executeUnstake, getServerEvmAddress, getStakeInfo, previewUnstake, quoteCrossChainTransfer, resolveStakingPool } from './cross-chain-staking';
+import { createExitJob, createJob, createRecoveryJob, findJobByWormholeHash, getJob, resumeUnfinishedJobs, runJob } from './jobs';
+import {
+  buildRedeemTransactions,
+  buildStakeTransactions,
+  buildTransferTransactions,
+  buildUnstakeTransactions,
+  submitSolanaTransaction
+} from './wallet-transactions';
+import { ethers } from 'ethers';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { ProgressEvent, getProgressHistory, runOperation, subscribeProgress } from './progress';
+import { getIndexedPositions, getIndexedUserEvents, startIndexer } from './indexer';
+import { getStakingPoolConfig } from './config';
+import { LedgerEntry, MAX_PAGE_SIZE, findLedgerEntries, getExplorerUrl, ledgerToCsv, queryLedger } from './ledger';
+import { dryRunCrossChainStake, dryRunUnstake } from './dry-run';
+import { getQueuePosition, getWalletOperation, listQueue, withWalletLock } from './wallet-queue';
+import { assessStake, getHealthAlerts, getPositionHealth, startHealthMonitor, subscribeHealthAlerts } from './valuation';
+import { DeliveryStatus, listChannels, listDeliveries, notify, resumePendingDeliveries } from './notifications';
+import { checkReadiness } from './health';
+import { registry } from './metrics';
+import { checkApiKeys, identifyClient, isApiAuthDisabled, rateLimit, requireApiKey, reserveSpend } from './api-auth';
+import { ConflictError, toAppError } from './errors';
+import {
+  addMinterSchema,
+  checkSourceAmount,
+  checkWrappedAmount,
+  crossChainStakeSchema,
+  emergencyWithdrawSchema,
+  exitSchema,
+  loanRatioSchema,
+  minterParamsSchema,
+  parseInput,
+  quoteSchema,
+  recoverSchema,
+  tokenAddressSchema,
+  unstakePreviewSchema,
+  unstakeSchema,
+  walletRedeemSchema,
+  walletStakeSchema,
+  walletSubmitSchema,
+  walletTransferSchema
+} from './validation';
+import {
+  addMinter,
+  emergencyWithdraw,
+  getAdminStatus,
+  removeMinter,
+  updateLoanRatio,
+  updateLoanToken,
+  updateStakingToken
+} from './admin';
 
 // Load environment variables
 config();
@@ -12,37 +63,85 @@ const PORT = process.env.PORT || 3000;
 // Middleware
 app.use(express.json());
 app.use(express.static(path.join(__dirname, '../public')));
+// Solana web3.js browser bundle, used by the UI to hand transactions to the connected wallet
+app.get('/vendor/solana-web3.js', (req: Request, res: Response) => {
+  res.sendFile(require.resolve('@solana/web3.js/lib/index.iife.min.js'));
+});
+// API keys and rate limits, see api-auth.ts
+app.use('/api', identifyClient, rateLimit);
 
-// Store connected clients
-const clients: { id: string; response: Response }[] = [];
+// Source token from a request body or query, "native" when omitted
+function parseToken(value: unknown): string | null {
+  if (value === undefined || value === '') {
+    return 'native';
+  }
+  return typeof value === 'string' ? value.trim() : null;
+}
 
-// Save original console.log
-const originalConsoleLog = console.log;
+// EVM address from a request body or query, null when missing or malformed
+function parseEvmAddress(value: unknown): string | null {
+  return typeof value === 'string' && ethers.isAddress(value) ? value : null;
+}
 
-// Send logs to all connected clients
-function sendLogToAll(message: string) {
-  // Use original console.log to avoid recursive calls
-  originalConsoleLog(message);
-  clients.forEach(client => {
-    try {
-      client.response.write(`data: ${message}\n\n`);
-    } catch (error) {
-      // Ignore errors from closed connections
-      originalConsoleLog(`Failed to send log: ${error}`);
-    }
+// Answer a failed request with the error's stable code and HTTP status, see errors.ts
+function sendError(res: Response, error: unknown, fallbackMessage: string) {
+  const appError = toAppError(error);
+  return res.status(appError.status).json({
+    success: false,
+    code: appError.code,
+    message: appError.message || fallbackMessage
+  });
+}
+
+// Wrapped amount an unstake or exit moves, the server wallet's whole position when omitted
+async function unstakeSpend(amount: string | undefined, token: string): Promise<string> {
+  return amount ?? (await getStakeInfo(token)).stakedAmount;
+}
+
+// Refuse with 409 while another operation holds the wallet. Callers take the wallet right after,
+// with no await in between, so a request that passes isn't queued behind one that started meanwhile.
+function refuseIfWalletBusy(res: Response, wallet: string): boolean {
+  const busyWith = getWalletOperation(wallet);
+  if (!busyWith) {
+    return false;
+  }
+  res.status(409).json({
+    success: false,
+    code: 'WALLET_BUSY',
+    message: `The server wallet is busy with ${busyWith.type} operation ${busyWith.id}, try again once it has finished`,
+    operation: busyWith
   });
+  return true;
 }
 
-// Redirect console output to clients
-console.log = function(...args: any[]) {
-  const message = args.map(arg => 
-    typeof arg === 'object' ? JSON.stringify(arg) : arg
-  ).join(' ');
-  sendLogToAll(message);
-};
+// Liveness probe - the process is up and serving requests
+app.get('/healthz', (req: Request, res: Response) => {
+  res.json({ status: 'ok', uptime: Math.round(process.uptime()) });
+});
+
+// Readiness probe - both chains reachable, signing keys configured, contracts deployed
+app.get('/readyz', async (req: Request, res: Response) => {
+  try {
+    const { ready, checks } = await checkReadiness();
+    res.status(ready ? 200 : 503).json({ status: ready ? 'ready' : 'not ready', checks });
+  } catch (error: any) {
+    console.error('Readiness check error:', error);
+    res.status(503).json({ status: 'not ready', message: error.message || 'Error checking readiness' });
+  }
+});
 
-// SSE endpoint - for real-time logs
-app.get('/api/logs', (req: Request, res: Response) => {
+// Prometheus metrics
+app.get('/metrics', async (req: Request, res: Response) => {
+  res.set('Content-Type', registry.contentType);
+  res.send(await registry.metrics());
+});
+
+// API endpoint - Progress events (SSE), optionally for a single operation.
+// Reconnecting clients send Last-Event-ID and get the events they missed replayed.
+app.get('/api/events', (req: Request, res: Response) => {
+  const operationId = typeof req.query.operationId === 'string' ? req.query.operationId : undefined;
+  const lastEventId = Number(req.header('Last-Event-ID') ?? req.query.lastEventId ?? 0) || 0;
+  
   // Set SSE headers
   res.writeHead(200, {
     'Content-Type': 'text/event-stream',
@@ -50,89 +149,247 @@ app.get('/api/logs', (req: Request, res: Response) => {
     'Connection': 'keep-alive'
   });
   
-  // Send initial message
-  res.write('data: Connected to log stream\n\n');
+  const send = (event: ProgressEvent) => {
+    res.write(`id: ${event.id}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
   
-  // Generate client ID
-  const clientId = Date.now().toString();
+  getProgressHistory(operationId, lastEventId).forEach(send);
   
-  // Add new client
-  clients.push({ id: clientId, response: res });
-  
-  // Remove client when connection is closed
-  req.on('close', () => {
-    const index = clients.findIndex(client => client.id === clientId);
-    if (index !== -1) {
-      clients.splice(index, 1);
+  const unsubscribe = subscribeProgress(event => {
+    if (!operationId || event.operationId === operationId) {
+      send(event);
     }
   });
+  
+  // Stop listening when connection is closed
+  req.on('close', unsubscribe);
 });
 
 // API endpoint - Execute cross-chain staking
-app.post('/api/cross-chain-stake', async (req: Request, res: Response) => {
-  // Set request timeout to 10 minutes
-  req.setTimeout(600000);
-  
+app.post('/api/cross-chain-stake', requireApiKey, async (req: Request, res: Response) => {
   try {
-    const { amount } = req.body;
+    const { amount, token, automatic, nativeGas, stakeAmount, stakeAll, dryRun } = parseInput(crossChainStakeSchema, req.body);
     
-    if (!amount || parseFloat(amount) <= 0) {
-      return res.status(400).json({ success: false, message: 'Please provide a valid amount' });
+    // Reject tokens without a staking contract or attestation before anything is sent
+    try {
+      await resolveStakingPool(token);
+    } catch (error: any) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: error.message });
+    }
+    await checkSourceAmount(amount, token, 'amount');
+    if (nativeGas !== undefined) {
+      await checkSourceAmount(nativeGas, token, 'nativeGas');
+    }
+    if (stakeAmount !== undefined) {
+      await checkWrappedAmount(stakeAmount, token, 'stakeAmount');
+    }
+    
+    const stakeOptions = {
+      amount: stakeAmount,
+      stakeAll: stakeAll || undefined,
+      token
+    };
+    const transferOptions = {
+      automatic: automatic || undefined,
+      nativeGas
+    };
+    
+    // Return the plan instead of creating a job, nothing is broadcast
+    if (dryRun) {
+      const plan = await dryRunCrossChainStake(amount, stakeOptions, transferOptions);
+      return res.json({
+        success: true,
+        message: plan.ok ? 'Dry run completed, nothing was sent' : 'Dry run found problems, nothing was sent',
+        dryRun: true,
+        ...plan
+      });
     }
     
-    // Modify cross-chain transfer function to accept amount parameter
-    const crossChainResult = await executeCrossChainTransfer(amount);
+    reserveSpend(res, token, amount);
     
-    // Wait for a while to ensure the assets have arrived
-    console.log("Waiting 30 seconds to ensure assets have arrived...");
-    await new Promise(resolve => setTimeout(resolve, 30000));
+    // Persist the job first, then run it in the background so progress survives refreshes and restarts
+    const job = createJob(amount, stakeOptions, transferOptions);
+    runJob(job.id);
     
-    // Execute staking operation
-    const stakingResult = await executeStaking(crossChainResult.destinationAddress);
+    return res.status(202).json({
+      success: true,
+      message: 'Cross-chain staking job created',
+      jobId: job.id,
+      status: job.status,
+      // 0 when it started right away, otherwise the number of operations ahead of it
+      queuePosition: getQueuePosition(job.id)
+    });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error creating cross-chain staking job');
+  }
+});
+
+// API endpoint - Quote a cross-chain transfer: relayer fee, destination amount and native gas drop-off
+app.get('/api/quote', async (req: Request, res: Response) => {
+  try {
+    const { amount, token, automatic, nativeGas } = parseInput(quoteSchema, req.query);
+    await checkSourceAmount(amount, token, 'amount');
+    if (nativeGas !== undefined) {
+      await checkSourceAmount(nativeGas, token, 'nativeGas');
+    }
+    
+    const quote = await quoteCrossChainTransfer(amount, { token, automatic, nativeGas });
     
     return res.json({
       success: true,
-      message: 'Cross-chain staking operation completed successfully',
-      sourceAddress: crossChainResult.sourceAddress,
-      destinationAddress: crossChainResult.destinationAddress,
-      amount: crossChainResult.amount,
-      wormholeHash: crossChainResult.wormholeHash,
-      stakedAmount: stakingResult?.stakedAmount,
-      loanedAmount: stakingResult?.loanedAmount
+      message: 'Transfer quote successful',
+      ...quote
     });
   } catch (error: any) {
     console.error('API error:', error);
     
-    // Ensure client receives error response
-    if (!res.headersSent) {
-      return res.status(500).json({
-        success: false,
-        message: error.message || 'Error executing cross-chain staking'
-      });
+    return sendError(res, error, 'Error quoting transfer');
+  }
+});
+
+// API endpoint - Recover a stuck transfer from its Solana source transaction hash
+app.post('/api/recover', requireApiKey, (req: Request, res: Response) => {
+  try {
+    const { txid, timeout, stake, stakeAmount, stakeAll } = parseInput(recoverSchema, req.body);
+    
+    // The job that sent the transfer stakes it itself
+    const owner = stake ? findJobByWormholeHash(txid) : undefined;
+    if (owner) {
+      throw new ConflictError(`Transfer ${txid} belongs to job ${owner.id} (${owner.status}), resume the job instead of recovering it again`);
     }
+    
+    // The token of a recovered transfer is only known once its VAA is read, so stakeAmount is
+    // checked against decimals when staking
+    const job = createRecoveryJob(txid, {
+      stake: stake === true,
+      attestationTimeout: timeout !== undefined ? timeout * 1000 : undefined,
+      amount: stakeAmount,
+      stakeAll: stakeAll || undefined
+    });
+    runJob(job.id);
+    
+    return res.status(202).json({
+      success: true,
+      message: 'Transfer recovery job created',
+      jobId: job.id,
+      status: job.status,
+      // 0 when it started right away, otherwise the number of operations ahead of it
+      queuePosition: getQueuePosition(job.id)
+    });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error creating transfer recovery job');
+  }
+});
+
+// API endpoint - Query cross-chain staking job
+app.get('/api/jobs/:id', (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  
+  if (!job) {
+    return res.status(404).json({ success: false, code: 'NOT_FOUND', message: 'Job not found' });
   }
+  
+  return res.json({ success: true, job, queuePosition: getQueuePosition(job.id) });
+});
+
+// API endpoint - Retry a failed job from its last completed phase
+app.post('/api/jobs/:id/resume', requireApiKey, (req: Request, res: Response) => {
+  const job = getJob(req.params.id);
+  
+  if (!job) {
+    return res.status(404).json({ success: false, code: 'NOT_FOUND', message: 'Job not found' });
+  }
+  if (job.status !== 'failed') {
+    return res.status(409).json({ success: false, code: 'CONFLICT', message: `Job is ${job.status}, only failed jobs can be resumed` });
+  }
+  
+  runJob(job.id);
+  
+  return res.status(202).json({ success: true, message: 'Job resumed', jobId: job.id, queuePosition: getQueuePosition(job.id) });
+});
+
+// API endpoint - Operations running or waiting on the server wallets
+app.get('/api/queue', (req: Request, res: Response) => {
+  return res.json({ success: true, operations: listQueue() });
 });
 
 // API endpoint - Unstake
-app.post('/api/unstake', async (req: Request, res: Response) => {
+app.post('/api/unstake', requireApiKey, async (req: Request, res: Response) => {
   // Set request timeout to 10 minutes
   req.setTimeout(600000);
   
   try {
+    const { amount, token, dryRun, ...input } = parseInput(unstakeSchema, req.body);
+    // Clients pick the id up front so they can subscribe to /api/events before the request completes
+    const operationId = input.operationId ?? randomUUID();
+    
+    if (amount !== undefined) {
+      await checkWrappedAmount(amount, token, 'amount');
+    }
+    
+    if (dryRun) {
+      const plan = await dryRunUnstake(amount, token);
+      if (!plan) {
+        return res.status(404).json({ success: false, code: 'NOT_FOUND', message: 'No stakes to unstake' });
+      }
+      return res.json({
+        success: true,
+        message: plan.ok ? 'Dry run completed, nothing was sent' : 'Dry run found problems, nothing was sent',
+        dryRun: true,
+        ...plan
+      });
+    }
+    
+    const spend = await unstakeSpend(amount, token);
+    
+    // Unstaking answers synchronously, so it is refused rather than queued while the wallet is in use
+    const wallet = getServerEvmAddress();
+    if (refuseIfWalletBusy(res, wallet)) {
+      return;
+    }
+    reserveSpend(res, token, spend);
+    
     console.log("Starting unstaking operation...");
     
     // Execute unstaking operation
-    const result = await executeUnstake();
+    let result;
+    try {
+      result = await withWalletLock(wallet, { id: operationId, type: 'unstake' }, () =>
+        runOperation(operationId, 'unstake', () =>
+          executeUnstake(amount, undefined, token)
+        )
+      );
+    } catch (error: any) {
+      notify('unstake.failed', 'Unstake failed', `Unstake ${operationId} failed: ${error.message}`, { operationId, amount, token, error: error.message });
+      throw error;
+    }
     
     if (result) {
+      notify('unstake.completed', 'Unstake completed', `Unstake ${operationId} completed.`, {
+        operationId,
+        token,
+        withdrawnAmount: result.withdrawnAmount,
+        burnedAmount: result.burnedAmount,
+        stakedAmount: result.newStakedAmount,
+        loanedAmount: result.newLoanedAmount
+      });
       return res.json({
         success: true,
         message: 'Unstaking operation completed successfully',
-        withdrawnAmount: result.withdrawnAmount
+        operationId,
+        withdrawnAmount: result.withdrawnAmount,
+        burnedAmount: result.burnedAmount,
+        stakedAmount: result.newStakedAmount,
+        loanedAmount: result.newLoanedAmount
       });
     } else {
-      return res.status(400).json({
+      return res.status(404).json({
         success: false,
+        code: 'NOT_FOUND',
         message: 'No stakes to unstake'
       });
     }
@@ -141,52 +398,479 @@ app.post('/api/unstake', async (req: Request, res: Response) => {
     
     // Ensure client receives error response
     if (!res.headersSent) {
-      return res.status(500).json({
-        success: false,
-        message: error.message || 'Error executing unstaking'
-      });
+      return sendError(res, error, 'Error executing unstaking');
     }
   }
 });
 
+// API endpoint - Unstake and bridge the wrapped SOL back to Solana
+app.post('/api/exit', requireApiKey, async (req: Request, res: Response) => {
+  try {
+    // Omitting the amount exits the whole position
+    const { amount, token } = parseInput(exitSchema, req.body);
+    if (amount !== undefined) {
+      await checkWrappedAmount(amount, token, 'amount');
+    }
+    
+    const spend = await unstakeSpend(amount, token);
+    
+    // The spend is the position read just now, so the exit is refused rather than queued behind an
+    // operation that may change it; runJob takes the wallet before its first await
+    if (refuseIfWalletBusy(res, getServerEvmAddress())) {
+      return;
+    }
+    reserveSpend(res, token, spend);
+    
+    const job = createExitJob(amount, token);
+    runJob(job.id);
+    
+    return res.status(202).json({
+      success: true,
+      message: 'Exit job created',
+      jobId: job.id,
+      status: job.status,
+      // 0 when it started right away, otherwise the number of operations ahead of it
+      queuePosition: getQueuePosition(job.id)
+    });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error creating exit job');
+  }
+});
+
+// API endpoint - Preview loan tokens burned by unstaking
+app.get('/api/unstake/preview', async (req: Request, res: Response) => {
+  try {
+    const { amount, token, address } = parseInput(unstakePreviewSchema, req.query);
+    if (amount !== undefined) {
+      await checkWrappedAmount(amount, token, 'amount');
+    }
+    
+    const preview = await previewUnstake(amount, token, address);
+    
+    return res.json({
+      success: true,
+      message: 'Unstake preview successful',
+      ...preview
+    });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error previewing unstake');
+  }
+});
+
 // API endpoint - Query staking status
 app.get('/api/stake-info', async (req: Request, res: Response) => {
   try {
+    const token = parseToken(req.query.token);
+    // Defaults to the server wallet when no address is given
+    const address = req.query.address !== undefined ? parseEvmAddress(req.query.address) : undefined;
+    
+    if (!token) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Token must be "native" or a token address' });
+    }
+    if (address === null) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Address must be a valid EVM address' });
+    }
+    
     console.log("Starting to query staking status...");
     
     // Get staking information
-    const stakeInfo = await getStakeInfo();
+    const stakeInfo = await getStakeInfo(token, address);
+    
+    // The amounts are still returned when the position can't be priced
+    let health;
+    let healthError: string | undefined;
+    try {
+      health = await assessStake(token, address, stakeInfo);
+    } catch (error: any) {
+      healthError = error.message || 'Error valuing the position';
+    }
     
     return res.json({
       success: true,
       message: 'Staking status query successful',
       stakedAmount: stakeInfo.stakedAmount,
-      loanedAmount: stakeInfo.loanedAmount
+      loanedAmount: stakeInfo.loanedAmount,
+      health,
+      healthError
     });
   } catch (error: any) {
     console.error('API error:', error);
     
-    return res.status(500).json({
-      success: false,
-      message: error.message || 'Error querying staking status'
+    return sendError(res, error, 'Error querying staking status');
+  }
+});
+
+// API endpoint - Unsigned transfer transactions for a browser Solana wallet
+app.post('/api/wallet/transfer', async (req: Request, res: Response) => {
+  try {
+    const { amount, token, automatic, nativeGas, sender, recipient } = parseInput(walletTransferSchema, req.body);
+    await checkSourceAmount(amount, token, 'amount');
+    if (nativeGas !== undefined) {
+      await checkSourceAmount(nativeGas, token, 'nativeGas');
+    }
+    
+    const result = await buildTransferTransactions(amount, sender, recipient, { token, automatic, nativeGas });
+    
+    return res.json({ success: true, message: 'Transfer transactions built', ...result });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error building transfer transactions');
+  }
+});
+
+// API endpoint - Broadcast a Solana transaction signed by the browser wallet
+app.post('/api/wallet/submit', async (req: Request, res: Response) => {
+  try {
+    const { transaction, operationId } = parseInput(walletSubmitSchema, req.body);
+    
+    const signature = await runOperation(operationId ?? randomUUID(), 'submit', () => submitSolanaTransaction(transaction));
+    
+    return res.json({ success: true, message: 'Transaction confirmed', signature });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error submitting transaction');
+  }
+});
+
+// API endpoint - Wait for the VAA and build the redeem transactions for a browser EVM wallet
+app.post('/api/wallet/redeem', async (req: Request, res: Response) => {
+  // Waiting for the VAA can take several minutes
+  req.setTimeout(600000);
+  
+  try {
+    const { txid, payer, timeout, operationId } = parseInput(walletRedeemSchema, req.body);
+    
+    const result = await runOperation(operationId ?? randomUUID(), 'redeem', () =>
+      buildRedeemTransactions(txid, payer, timeout !== undefined ? timeout * 1000 : undefined)
+    );
+    
+    return res.json({ success: true, message: 'Redeem transactions built', ...result });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error building redeem transactions');
+  }
+});
+
+// API endpoint - Unsigned approve and stake transactions for a browser EVM wallet
+app.post('/api/wallet/stake', async (req: Request, res: Response) => {
+  try {
+    const { address, amount, token } = parseInput(walletStakeSchema, req.body);
+    if (amount !== undefined) {
+      await checkWrappedAmount(amount, token, 'amount');
+    }
+    
+    const result = await buildStakeTransactions(address, amount, token);
+    
+    return res.json({ success: true, message: 'Stake transactions built', ...result });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error building stake transactions');
+  }
+});
+
+// API endpoint - Unsigned approve and unstake transactions for a browser EVM wallet
+app.post('/api/wallet/unstake', async (req: Request, res: Response) => {
+  try {
+    const { address, amount, token } = parseInput(walletStakeSchema, req.body);
+    if (amount !== undefined) {
+      await checkWrappedAmount(amount, token, 'amount');
+    }
+    
+    const result = await buildUnstakeTransactions(address, amount, token);
+    
+    return res.json({ success: true, message: 'Unstake transactions built', ...result });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error building unstake transactions');
+  }
+});
+
+// API endpoint - Transaction history from the local ledger, as JSON pages or CSV
+app.get('/api/history', (req: Request, res: Response) => {
+  try {
+    const { type, status, from, to, format } = req.query;
+    const page = req.query.page !== undefined ? Number(req.query.page) : 1;
+    const pageSize = req.query.pageSize !== undefined ? Number(req.query.pageSize) : 20;
+    
+    if (type !== undefined && !['transfer', 'stake', 'unstake'].includes(String(type))) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Type must be transfer, stake or unstake' });
+    }
+    if (status !== undefined && !['completed', 'failed'].includes(String(status))) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Status must be completed or failed' });
+    }
+    for (const date of [from, to]) {
+      if (date !== undefined && isNaN(new Date(String(date)).getTime())) {
+        return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: `Invalid date: ${date}` });
+      }
+    }
+    if (!Number.isInteger(page) || page < 1) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Page must be a positive integer' });
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: `Page size must be between 1 and ${MAX_PAGE_SIZE}` });
+    }
+    
+    const query = {
+      type: type !== undefined ? String(type) as LedgerEntry['type'] : undefined,
+      status: status !== undefined ? String(status) as LedgerEntry['status'] : undefined,
+      from: from !== undefined ? String(from) : undefined,
+      to: to !== undefined ? String(to) : undefined
+    };
+    
+    // CSV exports every matching entry, not just one page
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', 'attachment; filename="history.csv"');
+      return res.send(ledgerToCsv(findLedgerEntries(query)));
+    }
+    
+    const result = queryLedger({ ...query, page, pageSize });
+    
+    return res.json({
+      success: true,
+      ...result,
+      entries: result.entries.map(entry => ({
+        ...entry,
+        transactions: entry.transactions.map(tx => ({ ...tx, explorerUrl: getExplorerUrl(tx.chain, tx.hash) }))
+      }))
     });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error querying history');
   }
 });
 
+// Staking contract of the pool selected by a token query parameter
+function stakingContractForToken(value: unknown): string | null {
+  const token = parseToken(value);
+  return token ? getStakingPoolConfig(token)?.stakingContract ?? null : null;
+}
+
+// API endpoint - Every position rebuilt from indexed staking events
+app.get('/api/positions', (req: Request, res: Response) => {
+  try {
+    const stakingContract = stakingContractForToken(req.query.token);
+    
+    if (!stakingContract) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'No staking contract is configured for this token' });
+    }
+    
+    return res.json({ success: true, ...getIndexedPositions(stakingContract) });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error querying positions');
+  }
+});
+
+// API endpoint - Staking events of one address, with the position after each event
+app.get('/api/positions/:address/events', (req: Request, res: Response) => {
+  try {
+    const stakingContract = stakingContractForToken(req.query.token);
+    
+    if (!parseEvmAddress(req.params.address)) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Address must be a valid EVM address' });
+    }
+    if (!stakingContract) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'No staking contract is configured for this token' });
+    }
+    
+    return res.json({ success: true, ...getIndexedUserEvents(stakingContract, req.params.address) });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error querying position events');
+  }
+});
+
+// API endpoint - USD value, loan-to-value and health factor of one address's position
+app.get('/api/positions/:address/health', async (req: Request, res: Response) => {
+  try {
+    const token = parseToken(req.query.token);
+    
+    if (!parseEvmAddress(req.params.address)) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Address must be a valid EVM address' });
+    }
+    if (!token) {
+      return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Token must be "native" or a token address' });
+    }
+    
+    return res.json({ success: true, ...(await getPositionHealth(token, req.params.address)) });
+  } catch (error: any) {
+    console.error('API error:', error);
+    
+    return sendError(res, error, 'Error querying position health');
+  }
+});
+
+// API endpoint - Positions whose health status changed, newest first
+app.get('/api/alerts', (req: Request, res: Response) => {
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+  
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Limit must be a positive integer' });
+  }
+  
+  return res.json({ success: true, alerts: getHealthAlerts(limit) });
+});
+
+// Admin routes need "Authorization: Bearer <ADMIN_API_TOKEN>" and are disabled when the token isn't set
+function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return res.status(503).json({ success: false, code: 'NOT_CONFIGURED', message: 'Admin API is disabled, set ADMIN_API_TOKEN to enable it' });
+  }
+  const provided = Buffer.from((req.header('Authorization') ?? '').replace(/^Bearer\s+/i, ''));
+  if (provided.length !== Buffer.byteLength(expected) || !timingSafeEqual(provided, Buffer.from(expected))) {
+    return res.status(401).json({ success: false, code: 'UNAUTHORIZED', message: 'Invalid admin token' });
+  }
+  next();
+}
+
+// Run an admin action for the pool of the request's token, answering with the transaction hash
+function adminAction(description: string, action: (token: string, req: Request) => Promise<object>) {
+  return async (req: Request, res: Response) => {
+    try {
+      const token = parseToken(req.body?.token ?? req.query.token);
+      if (!token) {
+        return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Token must be "native" or a token address' });
+      }
+      
+      const result = await action(token, req);
+      
+      return res.json({ success: true, message: `${description} completed`, ...result });
+    } catch (error: any) {
+      console.error('API error:', error);
+      
+      return sendError(res, error, `Error executing ${description.toLowerCase()}`);
+    }
+  };
+}
+
+// API endpoint - Configured notification channels and the delivery log, newest first
+app.get('/api/admin/notifications', requireAdmin, (req: Request, res: Response) => {
+  const status = req.query.status as string | undefined;
+  const limit = req.query.limit !== undefined ? Number(req.query.limit) : undefined;
+  
+  if (status !== undefined && !['pending', 'delivered', 'failed'].includes(status)) {
+    return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Status must be pending, delivered or failed' });
+  }
+  if (limit !== undefined && !(Number.isInteger(limit) && limit > 0)) {
+    return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Limit must be a positive integer' });
+  }
+  
+  return res.json({
+    success: true,
+    channels: listChannels(),
+    deliveries: listDeliveries({ status: status as DeliveryStatus | undefined, limit })
+  });
+});
+
+// API endpoint - Send a test notification to every configured channel
+app.post('/api/admin/notifications/test', requireAdmin, (req: Request, res: Response) => {
+  const deliveries = notify('test', 'Test notification', 'Notifications from the cross-chain staking server are working.');
+  
+  if (deliveries.length === 0) {
+    return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'No notification channels are configured' });
+  }
+  
+  return res.status(202).json({ success: true, message: 'Test notification queued', deliveries });
+});
+
+// API endpoint - Owners, token wiring, loan ratio and minter status of a pool
+app.get('/api/admin/status', requireAdmin, adminAction('Admin status query', token => getAdminStatus(token)));
+
+// API endpoint - Allow an address to mint loan tokens, the pool's staking contract by default
+app.post('/api/admin/minters', requireAdmin, adminAction('Add minter', (token, req) =>
+  addMinter(parseInput(addMinterSchema, req.body).minter, token)
+));
+
+// API endpoint - Revoke a loan token minter
+app.delete('/api/admin/minters/:address', requireAdmin, adminAction('Remove minter', (token, req) =>
+  removeMinter(parseInput(minterParamsSchema, req.params).address, token)
+));
+
+// API endpoint - Update the staking contract's loan ratio
+app.post('/api/admin/loan-ratio', requireAdmin, adminAction('Loan ratio update', (token, req) =>
+  updateLoanRatio(parseInput(loanRatioSchema, req.body).ratio, token)
+));
+
+// API endpoint - Switch the staking token, only while nothing is staked
+app.post('/api/admin/staking-token', requireAdmin, adminAction('Staking token update', (token, req) =>
+  updateStakingToken(parseInput(tokenAddressSchema, req.body).address, token)
+));
+
+// API endpoint - Switch the loan token, only while nothing is staked
+app.post('/api/admin/loan-token', requireAdmin, adminAction('Loan token update', (token, req) =>
+  updateLoanToken(parseInput(tokenAddressSchema, req.body).address, token)
+));
+
+// API endpoint - Withdraw tokens held by the staking contract to its owner
+app.post('/api/admin/emergency-withdraw', requireAdmin, adminAction('Emergency withdrawal', (token, req) => {
+  const { tokenAddress, amount } = parseInput(emergencyWithdrawSchema, req.body);
+  return emergencyWithdraw(tokenAddress, amount, token);
+}));
+
 // Error handling middleware
 app.use((err: any, req: Request, res: Response, next: any) => {
   console.error('Server error:', err);
+  if (!res.headersSent && err?.type === 'entity.parse.failed') {
+    return res.status(400).json({ success: false, code: 'INVALID_REQUEST', message: 'Request body is not valid JSON' });
+  }
   if (!res.headersSent) {
     res.status(500).json({
       success: false,
+      code: 'INTERNAL_ERROR',
       message: 'Internal server error'
     });
   }
 });
 
-// Start server
+// Start server, after checking the API keys
+checkApiKeys();
 const server = app.listen(PORT, () => {
   console.log(`Server running at http://localhost:${PORT}`);
+  
+  if (isApiAuthDisabled()) {
+    console.warn('API_AUTH_DISABLED=true: routes that sign with the server wallets accept requests without an API key');
+  }
+  
+  // Continue jobs interrupted by the previous shutdown
+  const resumed = resumeUnfinishedJobs();
+  if (resumed > 0) {
+    console.log(`Resumed ${resumed} unfinished job(s)`);
+  }
+  
+  // Retry notifications that were still being delivered at shutdown
+  const pendingDeliveries = resumePendingDeliveries();
+  if (pendingDeliveries > 0) {
+    console.log(`Retrying ${pendingDeliveries} pending notification(s)`);
+  }
+  
+  // Notify when a position's health status changes
+  subscribeHealthAlerts(alert => {
+    notify('position.health', `Position ${alert.status}`, `Position ${alert.address} on ${alert.stakingContract} went from ${alert.previousStatus ?? 'unknown'} to ${alert.status}, health factor ${alert.healthFactor}.`, { ...alert });
+  });
+  
+  // Backfill and follow staking events for /api/positions
+  if (process.env.INDEXER_ENABLED !== 'false') {
+    startIndexer();
+    
+    // Value indexed positions and alert when their health status changes
+    if (process.env.HEALTH_MONITOR_ENABLED !== 'false') {
+      startHealthMonitor();
+    }
+  }
 });
 
 // Set server timeout
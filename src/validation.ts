@@ -0,0 +1,147 @@
+import { ethers } from "ethers";
+import { z } from "zod";
+import { getBridgeClient } from "./bridge";
+import { getDeploymentConfig } from "./config";
+import { ERC20_ABI, resolveStakingPool } from "./cross-chain-staking";
+import { ValidationError } from "./errors";
+import { getEvmProvider, retryRead } from "./evm";
+import { isSolanaAddress } from "./wallet-transactions";
+
+// Request schemas of the API routes, and checks of amounts against the decimals of their token.
+// Amounts stay decimal strings from the request to parseUnits, they never go through a float.
+
+// Digits with an optional fraction, no sign or exponent
+const DECIMAL = /^\d+(\.\d+)?$/;
+
+// JSON numbers are accepted as long as they print without an exponent
+const decimalString = z
+  .union([z.string(), z.number()], {
+    errorMap: (issue, ctx) => ({ message: ctx.data === undefined ? "is required" : "must be a decimal number such as 0.5" }),
+  })
+  .transform(value => String(value).trim())
+  .refine(value => DECIMAL.test(value), "must be a decimal number such as 0.5");
+
+// Only reported for decimals, so "abc" isn't also said to be zero
+const amount = decimalString.refine(value => !DECIMAL.test(value) || /[1-9]/.test(value), "must be greater than zero");
+
+// Source token, "native" when omitted
+const token = z.preprocess(
+  value => (value === undefined || value === "" ? "native" : value),
+  z.string({ invalid_type_error: 'must be "native" or a token address' }).trim().min(1)
+);
+
+// Boolean from a JSON body or a query string
+const flag = z
+  .union([z.boolean(), z.enum(["true", "false", "1", "0"])])
+  .optional()
+  .transform(value => value === true || value === "true" || value === "1");
+
+const evmAddress = z.string().refine(value => ethers.isAddress(value), "must be a valid EVM address");
+
+const solanaAddress = z.string().refine(value => isSolanaAddress(value), "must be a valid Solana address");
+
+const txid = z.string().trim().min(1, "is required");
+
+// Seconds
+const timeout = z.coerce.number().positive();
+
+const transferFields = {
+  amount,
+  token,
+  automatic: flag,
+  nativeGas: decimalString.optional(),
+};
+
+const nativeGasNeedsAutomatic = (input: { automatic: boolean; nativeGas?: string }) => !input.nativeGas || input.automatic;
+
+const oneStakeTarget = (input: { stakeAmount?: string; stakeAll?: boolean }) => !(input.stakeAmount !== undefined && input.stakeAll);
+
+export const crossChainStakeSchema = z
+  .object({ ...transferFields, stakeAmount: amount.optional(), stakeAll: z.boolean().optional(), dryRun: flag })
+  .refine(nativeGasNeedsAutomatic, { message: "requires automatic mode", path: ["nativeGas"] })
+  .refine(oneStakeTarget, { message: "provide either stakeAmount or stakeAll, not both", path: ["stakeAmount"] });
+
+export const quoteSchema = z
+  .object(transferFields)
+  .refine(nativeGasNeedsAutomatic, { message: "requires automatic mode", path: ["nativeGas"] });
+
+export const recoverSchema = z
+  .object({ txid, timeout: timeout.optional(), stake: z.boolean().optional(), stakeAmount: amount.optional(), stakeAll: z.boolean().optional() })
+  .refine(oneStakeTarget, { message: "provide either stakeAmount or stakeAll, not both", path: ["stakeAmount"] });
+
+// Omitting the amount unstakes the whole position
+export const unstakeSchema = z.object({ amount: amount.optional(), token, operationId: z.string().min(1).optional(), dryRun: flag });
+
+export const exitSchema = z.object({ amount: amount.optional(), token });
+
+export const unstakePreviewSchema = z.object({ amount: amount.optional(), token, address: evmAddress.optional() });
+
+export const walletTransferSchema = z
+  .object({ ...transferFields, sender: solanaAddress, recipient: evmAddress })
+  .refine(nativeGasNeedsAutomatic, { message: "requires automatic mode", path: ["nativeGas"] });
+
+// Wallet routes accept an operationId to follow their progress over /api/events
+const operationId = z.string().min(1).optional();
+
+export const walletSubmitSchema = z.object({ transaction: z.string().min(1, "is required"), operationId });
+
+export const walletRedeemSchema = z.object({ txid, payer: evmAddress, timeout: timeout.optional(), operationId });
+
+export const walletStakeSchema = z.object({ address: evmAddress, amount: amount.optional(), token });
+
+// Admin routes; the pool's token is read by the route itself
+export const addMinterSchema = z.object({ minter: evmAddress.optional() });
+
+export const minterParamsSchema = z.object({ address: evmAddress });
+
+// Loan tokens minted per staked base unit, a whole number
+export const loanRatioSchema = z.object({
+  ratio: z
+    .union([z.string(), z.number()])
+    .transform(value => String(value).trim())
+    .refine(value => /^\d+$/.test(value) && /[1-9]/.test(value), "must be a positive whole number"),
+});
+
+export const tokenAddressSchema = z.object({ address: evmAddress });
+
+export const emergencyWithdrawSchema = z.object({ tokenAddress: evmAddress, amount });
+
+// Parse a request body or query with a schema, every problem listed in one message
+export function parseInput<T extends z.ZodTypeAny>(schema: T, data: unknown): z.output<T> {
+  const result = schema.safeParse(data ?? {});
+  if (!result.success) {
+    throw new ValidationError(
+      result.error.issues.map(issue => (issue.path.length > 0 ? `${issue.path.join(".")} ${issue.message}` : issue.message)).join("; ")
+    );
+  }
+  return result.data;
+}
+
+// Reject amounts with more decimal places than the token has; trailing zeros don't count
+export function checkPrecision(value: string, decimals: number, field: string) {
+  const fraction = (value.split(".")[1] ?? "").replace(/0+$/, "");
+  if (fraction.length > decimals) {
+    throw new ValidationError(`${field} has more than ${decimals} decimal places`);
+  }
+}
+
+// Amount in a source chain token
+export async function checkSourceAmount(value: string, sourceToken: string, field: string) {
+  const decimals = await getBridgeClient().getDecimals(getDeploymentConfig().sourceChain, sourceToken);
+  checkPrecision(value, decimals, field);
+}
+
+// Decimals of the wrapped tokens by source token, they never change
+const wrappedDecimals = new Map<string, number>();
+
+// Amount in the wrapped token staked for a source token
+export async function checkWrappedAmount(value: string, sourceToken: string, field: string) {
+  let decimals = wrappedDecimals.get(sourceToken);
+  if (decimals === undefined) {
+    const pool = await resolveStakingPool(sourceToken);
+    const contract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, getEvmProvider());
+    decimals = Number(await retryRead(() => contract.decimals()));
+    wrappedDecimals.set(sourceToken, decimals);
+  }
+  checkPrecision(value, decimals, field);
+}
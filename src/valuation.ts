@@ -0,0 +1,220 @@
+import { ethers } from "ethers";
+import { listStakingPoolConfigs } from "./config";
+import { StakingPool, getServerEvmAddress, getStakeInfo, resolveStakingPool } from "./cross-chain-staking";
+import { getIndexedPositions } from "./indexer";
+import { getPriceSource } from "./prices";
+
+// Values positions in USD and watches their health. The health factor is the collateral value,
+// discounted by the liquidation threshold, over the loan value: below 1 the loan tokens are worth
+// more than the collateral is allowed to back.
+
+const SCALE = 10n ** 18n;
+
+// Alerts kept in memory for /api/alerts
+const MAX_ALERTS = 200;
+
+const HEALTH_CHECK_INTERVAL = Number(process.env.HEALTH_CHECK_INTERVAL_MS || 60_000);
+
+// healthy above the warning factor, critical at or below the critical factor
+export type HealthStatus = "healthy" | "warning" | "critical";
+
+export interface PositionHealth {
+  sourceToken: string;
+  stakingContract: string;
+  address: string;
+  stakedAmount: string;
+  loanedAmount: string;
+  // USD per whole token
+  collateralPrice: string;
+  loanPrice: string;
+  // USD
+  collateralValue: string;
+  loanValue: string;
+  // Loan value over collateral value, null without collateral
+  loanToValue: string | null;
+  // null without a loan
+  healthFactor: string | null;
+  status: HealthStatus;
+}
+
+export interface HealthAlert {
+  id: number;
+  timestamp: string;
+  sourceToken: string;
+  stakingContract: string;
+  address: string;
+  // Unset the first time the position is seen
+  previousStatus?: HealthStatus;
+  status: HealthStatus;
+  healthFactor: string | null;
+}
+
+interface PoolPrices {
+  collateralPrice: string;
+  loanPrice: string;
+}
+
+// Fixed-point setting from an environment variable
+function getFactor(name: string, fallback: string): bigint {
+  const value = process.env[name] || fallback;
+  try {
+    return ethers.parseUnits(value, 18);
+  } catch {
+    throw new Error(`Invalid ${name}: ${value} (expected a decimal number)`);
+  }
+}
+
+function getHealthSettings() {
+  return {
+    liquidationThreshold: getFactor("LIQUIDATION_THRESHOLD", "0.8"),
+    warningFactor: getFactor("HEALTH_WARNING_FACTOR", "1.5"),
+    criticalFactor: getFactor("HEALTH_CRITICAL_FACTOR", "1.1"),
+  };
+}
+
+async function getPoolPrices(pool: StakingPool): Promise<PoolPrices> {
+  const prices = getPriceSource();
+  const [collateralPrice, loanPrice] = await Promise.all([prices.getPrice(pool.wrappedToken), prices.getPrice(pool.loanToken)]);
+  return { collateralPrice, loanPrice };
+}
+
+// Value one position at the given prices
+function assessPosition(
+  pool: StakingPool,
+  prices: PoolPrices,
+  address: string,
+  position: { stakedAmount: string; loanedAmount: string }
+): PositionHealth {
+  const { liquidationThreshold, warningFactor, criticalFactor } = getHealthSettings();
+  const collateralValue = (ethers.parseUnits(position.stakedAmount, 18) * ethers.parseUnits(prices.collateralPrice, 18)) / SCALE;
+  const loanValue = (ethers.parseUnits(position.loanedAmount, 18) * ethers.parseUnits(prices.loanPrice, 18)) / SCALE;
+
+  const healthFactor = loanValue > 0n ? (collateralValue * liquidationThreshold) / loanValue : null;
+  const status: HealthStatus =
+    healthFactor === null || healthFactor > warningFactor ? "healthy" : healthFactor > criticalFactor ? "warning" : "critical";
+
+  return {
+    sourceToken: pool.sourceToken,
+    stakingContract: pool.stakingContract,
+    address: ethers.getAddress(address),
+    stakedAmount: position.stakedAmount,
+    loanedAmount: position.loanedAmount,
+    collateralPrice: prices.collateralPrice,
+    loanPrice: prices.loanPrice,
+    collateralValue: ethers.formatUnits(collateralValue, 18),
+    loanValue: ethers.formatUnits(loanValue, 18),
+    loanToValue: collateralValue > 0n ? ethers.formatUnits((loanValue * SCALE) / collateralValue, 18) : null,
+    healthFactor: healthFactor !== null ? ethers.formatUnits(healthFactor, 18) : null,
+    status,
+  };
+}
+
+// Last status of each position, by staking contract and address
+const lastStatus = new Map<string, HealthStatus>();
+const alerts: HealthAlert[] = [];
+const alertListeners = new Set<(alert: HealthAlert) => void>();
+let nextAlertId = 1;
+
+// Raise an alert when a position's status differs from the last time it was valued,
+// or when it is first seen in trouble
+function trackHealth(health: PositionHealth) {
+  const key = `${health.stakingContract.toLowerCase()}:${health.address.toLowerCase()}`;
+  const previousStatus = lastStatus.get(key);
+  lastStatus.set(key, health.status);
+  if (previousStatus === health.status || (previousStatus === undefined && health.status === "healthy")) {
+    return;
+  }
+
+  const alert: HealthAlert = {
+    id: nextAlertId++,
+    timestamp: new Date().toISOString(),
+    sourceToken: health.sourceToken,
+    stakingContract: health.stakingContract,
+    address: health.address,
+    previousStatus,
+    status: health.status,
+    healthFactor: health.healthFactor,
+  };
+  alerts.push(alert);
+  if (alerts.length > MAX_ALERTS) {
+    alerts.shift();
+  }
+  console.warn(`Position ${health.address} on ${health.stakingContract} is ${health.status} (was ${previousStatus ?? "unknown"}), health factor ${health.healthFactor}`);
+
+  for (const listener of alertListeners) {
+    try {
+      listener(alert);
+    } catch (error) {
+      console.error("Health alert listener failed:", error);
+    }
+  }
+}
+
+// Value a position already read from the contract
+export async function assessStake(
+  sourceToken: string,
+  address: string | undefined,
+  position: { stakedAmount: string; loanedAmount: string }
+): Promise<PositionHealth> {
+  const pool = await resolveStakingPool(sourceToken);
+  const health = assessPosition(pool, await getPoolPrices(pool), address ?? getServerEvmAddress(), position);
+  trackHealth(health);
+  return health;
+}
+
+// Read and value the position of an address, the server wallet by default
+export async function getPositionHealth(sourceToken: string = "native", address?: string): Promise<PositionHealth> {
+  return assessStake(sourceToken, address, await getStakeInfo(sourceToken, address));
+}
+
+// Value every indexed position of every pool, raising alerts for those whose status changed
+export async function checkPositionHealth(): Promise<PositionHealth[]> {
+  const results: PositionHealth[] = [];
+  for (const poolConfig of listStakingPoolConfigs()) {
+    const pool = await resolveStakingPool(poolConfig.sourceToken);
+    const { positions } = getIndexedPositions(pool.stakingContract);
+    if (positions.length === 0) {
+      continue;
+    }
+    const prices = await getPoolPrices(pool);
+    for (const position of positions) {
+      const health = assessPosition(pool, prices, position.address, position);
+      trackHealth(health);
+      results.push(health);
+    }
+  }
+  return results;
+}
+
+// Check indexed positions periodically; returns a function that stops checking
+export function startHealthMonitor(): () => void {
+  let stopped = false;
+  let timer: NodeJS.Timeout | undefined;
+
+  const check = async () => {
+    try {
+      await checkPositionHealth();
+    } catch (error) {
+      console.error("Position health check failed, retrying:", error);
+    }
+    if (!stopped) {
+      timer = setTimeout(check, HEALTH_CHECK_INTERVAL);
+    }
+  };
+  check();
+
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+// Recent alerts, newest first
+export function getHealthAlerts(limit: number = MAX_ALERTS): HealthAlert[] {
+  return alerts.slice(-limit).reverse();
+}
+
+export function subscribeHealthAlerts(listener: (alert: HealthAlert) => void): () => void {
+  alertListeners.add(listener);
+  return () => alertListeners.delete(listener);
+}
@@ -0,0 +1,98 @@
+// One operation at a time per server wallet. Staking sweeps and measures the wallet's balances and
+// every operation sends from the same nonce sequence, so overlapping operations would see each
+// other's funds. Operations wait in line per wallet, first come first served; the queue lives in
+// this process only, the CLI running next to the server isn't part of it.
+
+export interface QueuedOperation {
+  // Job id or operation id
+  id: string;
+  // stake, exit, unstake...
+  type: string;
+  wallet: string;
+  status: "running" | "waiting";
+  // 0 for the running operation, then its place in line
+  position: number;
+  queuedAt: string;
+  startedAt?: string;
+}
+
+interface QueueEntry {
+  id: string;
+  type: string;
+  queuedAt: string;
+  startedAt?: string;
+  start: () => void;
+}
+
+// Entries per wallet, the first one holds the wallet
+const queues = new Map<string, QueueEntry[]>();
+
+function toQueuedOperation(wallet: string, entry: QueueEntry, position: number): QueuedOperation {
+  return {
+    id: entry.id,
+    type: entry.type,
+    wallet,
+    status: position === 0 ? "running" : "waiting",
+    position,
+    queuedAt: entry.queuedAt,
+    startedAt: entry.startedAt,
+  };
+}
+
+// Run fn once every operation queued before it on the wallet has finished.
+// The operation is queued synchronously, before the first await.
+export async function withWalletLock<T>(
+  wallet: string,
+  operation: { id: string; type: string },
+  fn: () => Promise<T>
+): Promise<T> {
+  const queue = queues.get(wallet) ?? [];
+  queues.set(wallet, queue);
+
+  let start!: () => void;
+  const turn = new Promise<void>(resolve => (start = resolve));
+  const entry: QueueEntry = { ...operation, queuedAt: new Date().toISOString(), start };
+  queue.push(entry);
+  if (queue.length === 1) {
+    start();
+  } else {
+    console.log(`${operation.type} ${operation.id} is waiting for ${queue.length - 1} operation(s) on wallet ${wallet}`);
+  }
+
+  await turn;
+  entry.startedAt = new Date().toISOString();
+  try {
+    return await fn();
+  } finally {
+    queue.shift();
+    if (queue.length > 0) {
+      queue[0].start();
+    } else {
+      queues.delete(wallet);
+    }
+  }
+}
+
+// Operation holding the wallet, or the first one in line, if the wallet is in use
+export function getWalletOperation(wallet: string): QueuedOperation | undefined {
+  const queue = queues.get(wallet);
+  return queue && queue.length > 0 ? toQueuedOperation(wallet, queue[0], 0) : undefined;
+}
+
+// Place of an operation in its wallet's line, 0 when running, undefined when not queued
+export function getQueuePosition(id: string): number | undefined {
+  for (const queue of queues.values()) {
+    const position = queue.findIndex(entry => entry.id === id);
+    if (position >= 0) {
+      return position;
+    }
+  }
+  return undefined;
+}
+
+// Every running and waiting operation, grouped by wallet in queue order
+export function listQueue(): QueuedOperation[] {
+  return [...queues.entries()].flatMap(([wallet, queue]) =>
+    queue.map((entry, position) => toQueuedOperation(wallet, entry, position))
+  );
+}
@@ -0,0 +1,315 @@
+import { Connection, Keypair, PublicKey, Transaction, VersionedTransaction } from "@solana/web3.js";
+import {
+  Chain,
+  ChainContext,
+  Network,
+  TokenBridge,
+  TokenTransfer,
+  UnsignedTransaction,
+  Wormhole,
+  amount,
+  canonicalAddress,
+  chainToPlatform,
+} from "@wormhole-foundation/sdk";
+import { ethers } from "ethers";
+import { getDeploymentConfig } from "./config";
+import {
+  ERC20_ABI,
+  RECOVERY_ATTESTATION_TIMEOUT,
+  STAKING_ABI,
+  TransferOptions,
+  calculateBurnAmount,
+  quoteCrossChainTransfer,
+  resolveStakingPool,
+  resolveUnstakeAmount,
+  verifyStakingPool,
+} from "./cross-chain-staking";
+import {
+  AttestationTimeoutError,
+  ConflictError,
+  ContractRevertedError,
+  InsufficientBalanceError,
+  InsufficientLoanTokensError,
+  NotFoundError,
+  ValidationError,
+} from "./errors";
+import { getEvmProvider, retryRead } from "./evm";
+import { getTokenDecimals } from "./helpers/helpers";
+import { emitProgress } from "./progress";
+import { countRpcErrors, getWormhole } from "./wormhole-bridge";
+
+// Builds unsigned transactions for wallets connected in the browser, so the server never holds user keys
+
+const { sourceChain: SOURCE_CHAIN, destinationChain: DESTINATION_CHAIN } = getDeploymentConfig();
+
+// EVM transaction request, ready for eth_sendTransaction
+export interface EvmTransactionRequest {
+  from: string;
+  to: string;
+  data: string;
+  value: string;
+  chainId: string;
+}
+
+// One transaction for the user's wallet to sign, in the order they must be sent
+export interface WalletTransaction {
+  chain: Chain;
+  description: string;
+  // Solana: base64 serialized transaction, already signed by any ephemeral keypairs.
+  // EVM: transaction request.
+  transaction: string | EvmTransactionRequest;
+}
+
+export function isSolanaAddress(address: string): boolean {
+  try {
+    new PublicKey(address);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Check a user address against the platform of the chain it is used on
+function assertAddress(chain: Chain, address: string) {
+  const valid = chainToPlatform(chain) === "Solana" ? isSolanaAddress(address) : ethers.isAddress(address);
+  if (!valid) {
+    throw new ValidationError(`Invalid ${chain} address: ${address}`);
+  }
+}
+
+// Turn the SDK's unsigned transactions into something a browser wallet can sign
+async function serializeTransactions<N extends Network>(
+  chain: ChainContext<N, Chain>,
+  txs: AsyncGenerator<UnsignedTransaction<N, Chain>>
+): Promise<WalletTransaction[]> {
+  const result: WalletTransaction[] = [];
+  for await (const tx of txs) {
+    if (chainToPlatform(chain.chain) === "Solana") {
+      const { transaction, signers } = tx.transaction as { transaction: Transaction; signers?: Keypair[] };
+      const connection = (await chain.getRpc()) as Connection;
+      transaction.recentBlockhash = (await connection.getLatestBlockhash()).blockhash;
+      if (signers && signers.length > 0) {
+        transaction.partialSign(...signers);
+      }
+      result.push({
+        chain: chain.chain,
+        description: tx.description,
+        transaction: transaction.serialize({ requireAllSignatures: false }).toString("base64"),
+      });
+    } else {
+      const request = tx.transaction as ethers.TransactionRequest;
+      result.push({
+        chain: chain.chain,
+        description: tx.description,
+        transaction: {
+          from: String(request.from),
+          to: String(request.to),
+          data: String(request.data),
+          value: ethers.toBeHex(request.value ?? 0),
+          chainId: ethers.toBeHex(request.chainId!),
+        },
+      });
+    }
+  }
+  return result;
+}
+
+// Contract call on the destination chain, sent from the user's address
+async function buildContractCall(
+  from: string,
+  to: string,
+  abi: string[],
+  method: string,
+  args: unknown[],
+  description: string
+): Promise<WalletTransaction> {
+  const { chainId } = await retryRead(() => getEvmProvider().getNetwork());
+  return {
+    chain: DESTINATION_CHAIN,
+    description,
+    transaction: {
+      from,
+      to,
+      data: new ethers.Interface(abi).encodeFunctionData(method, args),
+      value: "0x0",
+      chainId: ethers.toBeHex(chainId),
+    },
+  };
+}
+
+// Transactions that lock (or burn) the source token and publish the Wormhole message
+export async function buildTransferTransactions(
+  amt: string,
+  sender: string,
+  recipient: string,
+  options: TransferOptions = {}
+) {
+  assertAddress(SOURCE_CHAIN, sender);
+  assertAddress(DESTINATION_CHAIN, recipient);
+
+  // Also rejects tokens without a staking pool and amounts that don't cover the relayer fee
+  const quote = await quoteCrossChainTransfer(amt, options);
+
+  const wh = await getWormhole();
+  const sendChain = wh.getChain(SOURCE_CHAIN);
+  const rcvChain = wh.getChain(DESTINATION_CHAIN);
+
+  const token = Wormhole.tokenId(sendChain.chain, quote.sourceToken);
+  const decimals = await countRpcErrors(SOURCE_CHAIN, () => getTokenDecimals(wh, token, sendChain));
+  const units = amount.units(amount.parse(amt, decimals));
+  const from = Wormhole.chainAddress(sendChain.chain, sender);
+  const to = Wormhole.chainAddress(rcvChain.chain, recipient);
+
+  let txs: AsyncGenerator<UnsignedTransaction<Network, Chain>>;
+  if (options.automatic) {
+    const nativeGas = options.nativeGas ? amount.units(amount.parse(options.nativeGas, decimals)) : undefined;
+    const atb = await sendChain.getAutomaticTokenBridge();
+    txs = atb.transfer(from.address, to, token.address, units, nativeGas);
+  } else {
+    const tb = await sendChain.getTokenBridge();
+    txs = tb.transfer(from.address, to, token.address, units);
+  }
+
+  return {
+    transactions: await countRpcErrors(SOURCE_CHAIN, () => serializeTransactions(sendChain, txs)),
+    quote,
+  };
+}
+
+// Wait for the VAA of a transfer and build the redeem transactions, paid for by the given address.
+// The timeout covers finding the transfer on the source chain and waiting for its VAA.
+export async function buildRedeemTransactions(txid: string, payer: string, attestationTimeout: number = RECOVERY_ATTESTATION_TIMEOUT) {
+  assertAddress(DESTINATION_CHAIN, payer);
+
+  const wh = await getWormhole();
+  const sendChain = wh.getChain(SOURCE_CHAIN);
+  const rcvChain = wh.getChain(DESTINATION_CHAIN);
+
+  const xfer = await countRpcErrors(SOURCE_CHAIN, () => TokenTransfer.from(wh, { chain: sendChain.chain, txid }, attestationTimeout));
+  if (xfer.transfer.automatic) {
+    throw new ConflictError("This transfer is redeemed by the relayer, there is nothing to sign");
+  }
+
+  await countRpcErrors(SOURCE_CHAIN, () => xfer.fetchAttestation(attestationTimeout));
+  const vaa = xfer.attestations?.[0]?.attestation as TokenBridge.TransferVAA | undefined;
+  if (!vaa) {
+    throw new AttestationTimeoutError("No VAA available for this transfer", txid);
+  }
+  emitProgress({ type: "phase", phase: "attested", chain: SOURCE_CHAIN, txHashes: [txid] });
+
+  const decimals = await countRpcErrors(SOURCE_CHAIN, () => getTokenDecimals(wh, xfer.transfer.token, sendChain));
+  const result = {
+    amount: ethers.formatUnits(xfer.transfer.amount, decimals),
+    sourceToken: canonicalAddress(xfer.transfer.token),
+    recipient: xfer.transfer.to.address.toString(),
+    transactions: [] as WalletTransaction[],
+  };
+
+  if (await countRpcErrors(DESTINATION_CHAIN, () => TokenTransfer.isTransferComplete(rcvChain, vaa))) {
+    emitProgress({ type: "phase", phase: "redeemed", chain: DESTINATION_CHAIN, txHashes: [], amount: result.amount });
+    return result;
+  }
+
+  const tb = await rcvChain.getTokenBridge();
+  result.transactions = await countRpcErrors(DESTINATION_CHAIN, () => serializeTransactions(rcvChain, tb.redeem(Wormhole.parseAddress(rcvChain.chain, payer), vaa)));
+  return result;
+}
+
+// Approve (when the allowance is short) and stake wrapped tokens from the user's address, the whole balance by default
+export async function buildStakeTransactions(address: string, amt?: string, sourceToken: string = "native") {
+  assertAddress(DESTINATION_CHAIN, address);
+
+  const pool = await resolveStakingPool(sourceToken);
+  await verifyStakingPool(pool);
+  const wrappedContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, getEvmProvider());
+
+  const decimals = await retryRead(() => wrappedContract.decimals());
+  const balance: bigint = await retryRead(() => wrappedContract.balanceOf(address));
+  const stakeAmount = amt !== undefined ? ethers.parseUnits(amt, decimals) : balance;
+
+  if (stakeAmount <= 0n) {
+    throw new InsufficientBalanceError("No Wrapped SOL to stake, please ensure cross-chain transfer was successful");
+  }
+  if (stakeAmount > balance) {
+    throw new InsufficientBalanceError(`Insufficient Wrapped SOL balance, requested ${amt} but the wallet holds ${ethers.formatUnits(balance, decimals)}`);
+  }
+
+  const transactions: WalletTransaction[] = [];
+  const allowance: bigint = await retryRead(() => wrappedContract.allowance(address, pool.stakingContract));
+  if (allowance < stakeAmount) {
+    transactions.push(await buildContractCall(address, pool.wrappedToken, ERC20_ABI, "approve", [pool.stakingContract, stakeAmount], "Approve Wrapped SOL"));
+  }
+  transactions.push(await buildContractCall(address, pool.stakingContract, STAKING_ABI, "stake", [stakeAmount], "Stake"));
+
+  return {
+    stakeAmount: ethers.formatUnits(stakeAmount, decimals),
+    transactions,
+  };
+}
+
+// Approve the loan tokens to burn and unstake from the user's address, the whole position by default
+export async function buildUnstakeTransactions(address: string, amt?: string, sourceToken: string = "native") {
+  assertAddress(DESTINATION_CHAIN, address);
+
+  const pool = await resolveStakingPool(sourceToken);
+  const provider = getEvmProvider();
+  const stakingContract = new ethers.Contract(pool.stakingContract, STAKING_ABI, provider);
+  const wrappedContract = new ethers.Contract(pool.wrappedToken, ERC20_ABI, provider);
+  const loanTokenContract = new ethers.Contract(pool.loanToken, ERC20_ABI, provider);
+
+  const [stakedAmount, loanedAmount] = await retryRead(() => stakingContract.getUserStake(address));
+  const decimals = await retryRead(() => wrappedContract.decimals());
+  if (stakedAmount <= 0n) {
+    throw new NotFoundError("No stakes to unstake");
+  }
+
+  const unstakeAmount = resolveUnstakeAmount(amt, stakedAmount, decimals);
+  const burnAmount = calculateBurnAmount(unstakeAmount, stakedAmount, loanedAmount);
+
+  const loanBalance: bigint = await retryRead(() => loanTokenContract.balanceOf(address));
+  if (loanBalance < burnAmount) {
+    throw new InsufficientLoanTokensError(`Insufficient loan tokens, need ${ethers.formatUnits(burnAmount, 18)} CCLT but the wallet holds ${ethers.formatUnits(loanBalance, 18)}`);
+  }
+
+  const transactions: WalletTransaction[] = [];
+  const allowance: bigint = await retryRead(() => loanTokenContract.allowance(address, pool.stakingContract));
+  if (allowance < burnAmount) {
+    transactions.push(await buildContractCall(address, pool.loanToken, ERC20_ABI, "approve", [pool.stakingContract, burnAmount], "Approve loan tokens"));
+  }
+  transactions.push(await buildContractCall(address, pool.stakingContract, STAKING_ABI, "unstake", [unstakeAmount], "Unstake"));
+
+  return {
+    unstakeAmount: ethers.formatUnits(unstakeAmount, decimals),
+    burnAmount: ethers.formatUnits(burnAmount, 18),
+    transactions,
+  };
+}
+
+// Broadcast a Solana transaction signed in the browser and wait for it to confirm
+export async function submitSolanaTransaction(signedTransaction: string): Promise<string> {
+  const wh = await getWormhole();
+  const connection = (await wh.getChain(SOURCE_CHAIN).getRpc()) as Connection;
+
+  const serialized = Buffer.from(signedTransaction, "base64");
+  // Confirmed against the blockhash the transaction was signed with, so an expired one fails
+  // instead of being waited for under a newer blockhash
+  let blockhash: string;
+  try {
+    blockhash = VersionedTransaction.deserialize(serialized).message.recentBlockhash;
+  } catch {
+    throw new ValidationError("transaction is not a serialized Solana transaction");
+  }
+
+  const signature = await countRpcErrors(SOURCE_CHAIN, () => connection.sendRawTransaction(serialized));
+  emitProgress({ type: "phase", phase: "submitted", chain: SOURCE_CHAIN, txHashes: [signature] });
+
+  const confirmation = await countRpcErrors(SOURCE_CHAIN, async () => {
+    // A blockhash expires 150 blocks after its own, which is at most 150 blocks from now
+    const lastValidBlockHeight = (await connection.getBlockHeight("confirmed")) + 150;
+    return connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, "confirmed");
+  });
+  if (confirmation.value.err) {
+    throw new ContractRevertedError(`Solana transaction ${signature} failed with ${JSON.stringify(confirmation.value.err)}`);
+  }
+  return signature;
+}
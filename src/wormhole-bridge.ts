@@ -0,0 +1,263 @@
+import {
+  Chain,
+  ChainContext,
+  Network,
+  SignAndSendSigner,
+  Signer,
+  TokenTransfer,
+  UnsignedTransaction,
+  Wormhole,
+  amount,
+  canonicalAddress,
+  chainToPlatform,
+  wormhole,
+} from "@wormhole-foundation/sdk";
+import evm from "@wormhole-foundation/sdk/evm";
+import solana from "@wormhole-foundation/sdk/solana";
+import sui from "@wormhole-foundation/sdk/sui";
+import { ethers } from "ethers";
+import { getDeploymentConfig } from "./config";
+import { getSigner, getTokenDecimals } from "./helpers/helpers";
+import { BridgeClient, BridgeTransfer, BridgeTransferRequest } from "./bridge";
+import { AmountTooLowError, AppError, toAppError } from "./errors";
+import { getServerWallet, retryRead, sendTransaction } from "./evm";
+import { rpcErrorsTotal } from "./metrics";
+
+// BridgeClient on the Wormhole token bridge, signing with the server's SOL_PRIVATE_KEY and ETH_PRIVATE_KEY
+
+// Connect to Wormhole on the configured network, using any configured RPC endpoints
+export async function getWormhole() {
+  const { network, chains: settings } = getDeploymentConfig();
+  const chains: Record<string, { rpc: string }> = {};
+  for (const [chain, chainSettings] of Object.entries(settings)) {
+    if (chainSettings?.rpc) {
+      chains[chain] = { rpc: chainSettings.rpc };
+    }
+  }
+  return wormhole(network, [evm, solana, sui], { chains });
+}
+
+// Count failed RPC requests the SDK makes on its own connections, Solana's in particular. Errors that
+// are already classified come from the EVM provider, which counts its own failures (see evm.ts).
+export async function countRpcErrors<T>(chain: Chain, call: () => Promise<T>): Promise<T> {
+  try {
+    return await call();
+  } catch (error) {
+    if (!(error instanceof AppError) && toAppError(error).code === "RPC_UNAVAILABLE") {
+      rpcErrorsTotal.inc({ chain });
+    }
+    throw error;
+  }
+}
+
+// Destination token amount of a quote, formatted in the destination token's decimals
+async function formatDestinationAmount<N extends Network>(
+  wh: Wormhole<N>,
+  quote: Awaited<ReturnType<typeof TokenTransfer.quoteTransfer>>
+) {
+  const { token } = quote.destinationToken;
+  const decimals = await wh.getDecimals(token.chain, token.address);
+  return ethers.formatUnits(quote.destinationToken.amount, decimals);
+}
+
+// Signer for the SDK's transactions. On the destination chain they go through sendTransaction, so
+// they take their nonces from the same queue as every other send from the server's EVM wallet.
+async function getBridgeSigner<N extends Network, C extends Chain>(chain: ChainContext<N, C>): Promise<Signer<N, C>> {
+  if (chain.chain !== getDeploymentConfig().destinationChain || chainToPlatform(chain.chain) !== "Evm") {
+    return (await getSigner(chain)).signer;
+  }
+  const wallet = getServerWallet();
+  const signer: SignAndSendSigner<N, C> = {
+    chain: () => chain.chain,
+    address: () => wallet.address,
+    async signAndSend(txs: UnsignedTransaction<N, C>[]) {
+      const hashes: string[] = [];
+      for (const tx of txs) {
+        const response = await sendTransaction(wallet, tx.transaction as ethers.TransactionRequest);
+        // Confirmed before the next one is sent, as the SDK's own signer does
+        await retryRead(() => response.wait());
+        hashes.push(response.hash);
+      }
+      return hashes;
+    },
+  };
+  return signer;
+}
+
+export function createWormholeBridgeClient(): BridgeClient {
+  // SDK transfers behind the transfers handed out, they carry the attestation from one step to the next
+  const transfers = new WeakMap<BridgeTransfer, TokenTransfer<Network>>();
+
+  const getTransfer = (transfer: BridgeTransfer) => {
+    const xfer = transfers.get(transfer);
+    if (!xfer) {
+      throw new Error("Transfer was not initiated or recovered through this bridge client");
+    }
+    return xfer;
+  };
+
+  // SDK transfer details of a request, amounts in base units
+  const prepare = async (request: BridgeTransferRequest) => {
+    const wh = await getWormhole();
+    const sendChain = wh.getChain(request.fromChain);
+    const rcvChain = wh.getChain(request.toChain);
+    const token = Wormhole.tokenId(sendChain.chain, request.token);
+    const decimals = await getTokenDecimals(wh, token, sendChain);
+    return {
+      wh,
+      sendChain,
+      rcvChain,
+      token,
+      decimals,
+      units: amount.units(amount.parse(request.amount, decimals)),
+      nativeGas: request.automatic && request.nativeGas ? amount.units(amount.parse(request.nativeGas, decimals)) : undefined,
+    };
+  };
+
+  return {
+    async getAddress(chain) {
+      const wh = await getWormhole();
+      const signer = await getSigner(wh.getChain(chain));
+      return signer.address.address.toString();
+    },
+
+    getDecimals(chain, token) {
+      return countRpcErrors(chain, async () => {
+        const wh = await getWormhole();
+        return getTokenDecimals(wh, Wormhole.tokenId(chain, token), wh.getChain(chain));
+      });
+    },
+
+    getNativeWrappedToken(chain) {
+      return countRpcErrors(chain, async () => {
+        const wh = await getWormhole();
+        return canonicalAddress(await wh.getChain(chain).getNativeWrappedTokenId());
+      });
+    },
+
+    lookupWrappedToken(fromChain, toChain, token) {
+      return countRpcErrors(fromChain, async () => {
+        const wh = await getWormhole();
+        const destinationToken = await TokenTransfer.lookupDestinationToken(
+          wh.getChain(fromChain),
+          wh.getChain(toChain),
+          Wormhole.tokenId(fromChain, token)
+        );
+        return canonicalAddress(destinationToken);
+      });
+    },
+
+    quoteTransfer(request) {
+      return countRpcErrors(request.fromChain, async () => {
+        const { wh, sendChain, rcvChain, token, decimals, units, nativeGas } = await prepare(request);
+        const quote = await TokenTransfer.quoteTransfer(wh, sendChain, rcvChain, {
+          token,
+          amount: units,
+          automatic: request.automatic,
+          nativeGas,
+        });
+
+        if (quote.destinationToken.amount < 0n) {
+          throw new AmountTooLowError("The amount requested is too low to cover the fee and any native gas requested.");
+        }
+
+        return {
+          sourceAmount: ethers.formatUnits(quote.sourceToken.amount, decimals),
+          relayerFee: quote.relayFee ? ethers.formatUnits(quote.relayFee.amount, decimals) : "0",
+          destinationAmount: await formatDestinationAmount(wh, quote),
+          destinationNativeGas: ethers.formatEther(quote.destinationNativeGas ?? 0n),
+          eta: quote.eta !== undefined ? Math.round(quote.eta / 1000) : undefined,
+          warnings: (quote.warnings ?? []).map(warning => `${warning.type}: ${(warning as any).reason ?? ""}`.trim()),
+        };
+      });
+    },
+
+    initiateTransfer(request) {
+      return countRpcErrors(request.fromChain, async () => {
+        const { wh, sendChain, rcvChain, token, units, nativeGas } = await prepare(request);
+        const source = await getSigner(sendChain);
+        const destination = await getSigner(rcvChain);
+
+        const xfer = await wh.tokenTransfer(token, units, source.address, destination.address, request.automatic, undefined, nativeGas);
+
+        const quote = await TokenTransfer.quoteTransfer(wh, sendChain, rcvChain, xfer.transfer);
+        if (xfer.transfer.automatic) {
+          if (quote.destinationToken.amount < 0) {
+            throw new AmountTooLowError("The amount requested is too low to cover the fee and any native gas requested.");
+          }
+          console.log(`Automatic transfer, relayer fee: ${quote.relayFee?.amount ?? 0n}, destination amount: ${quote.destinationToken.amount}`);
+        }
+        // Formatted before sending, so a failing lookup can't lose the transaction ids
+        const destinationAmount = await formatDestinationAmount(wh, quote);
+
+        const txids = await xfer.initiateTransfer(await getBridgeSigner(sendChain));
+        const transfer: BridgeTransfer = {
+          fromChain: request.fromChain,
+          toChain: request.toChain,
+          token: request.token,
+          amount: request.amount,
+          automatic: request.automatic,
+          to: destination.address.address.toString(),
+          txids,
+          destinationAmount,
+        };
+        transfers.set(transfer, xfer);
+        return transfer;
+      });
+    },
+
+    recoverTransfer(chain, txid, timeout) {
+      return countRpcErrors(chain, async () => {
+        const wh = await getWormhole();
+        const xfer = await TokenTransfer.from(wh, { chain, txid }, timeout);
+        const { from, to } = xfer.transfer;
+        const decimals = await getTokenDecimals(wh, xfer.transfer.token, wh.getChain(from.chain));
+
+        // Re-quote to know what the destination receives: the relayer keeps a fee, and the wrapped
+        // token may have fewer decimals than the source token
+        const destinationAmount = await formatDestinationAmount(
+          wh,
+          await TokenTransfer.quoteTransfer(wh, wh.getChain(from.chain), wh.getChain(to.chain), xfer.transfer)
+        );
+
+        const transfer: BridgeTransfer = {
+          fromChain: from.chain,
+          toChain: to.chain,
+          token: canonicalAddress(xfer.transfer.token),
+          amount: ethers.formatUnits(xfer.transfer.amount, decimals),
+          automatic: xfer.transfer.automatic ?? false,
+          to: to.address.toString(),
+          txids: [txid],
+          destinationAmount,
+        };
+        transfers.set(transfer, xfer);
+        return transfer;
+      });
+    },
+
+    fetchAttestation(transfer, timeout) {
+      return countRpcErrors(transfer.fromChain, async () => {
+        const attestIds = await getTransfer(transfer).fetchAttestation(timeout);
+        return attestIds.map(id => `${id.chain}/${id.emitter.toString()}/${id.sequence}`);
+      });
+    },
+
+    completeTransfer(transfer) {
+      return countRpcErrors(transfer.toChain, async () => {
+        const wh = await getWormhole();
+        return getTransfer(transfer).completeTransfer(await getBridgeSigner(wh.getChain(transfer.toChain)));
+      });
+    },
+
+    isTransferComplete(transfer) {
+      return countRpcErrors(transfer.toChain, async () => {
+        const xfer = getTransfer(transfer);
+        const vaa = xfer.attestations?.[0]?.attestation as TokenTransfer.VAA | undefined;
+        if (!vaa) {
+          throw new Error("No VAA available to check the redemption");
+        }
+        return TokenTransfer.isTransferComplete(xfer.toChain, vaa);
+      });
+    },
+  };
+}
@@ -0,0 +1,122 @@
+import assert from "assert";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { after, test } from "node:test";
+import type { Request, Response } from "express";
+
+// Spend limits and the rate limiter. The spend file is read from the environment when the module
+// loads, so it is imported once the environment is set.
+
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccs-api-auth-"));
+process.env.SPEND_FILE = path.join(workDir, "spend.json");
+process.env.API_KEYS = "ops:0123456789abcdef0123";
+process.env.RATE_LIMIT_PER_MINUTE = "2";
+// Left behind by a crash mid-write, it is ignored and the totals start over
+fs.writeFileSync(process.env.SPEND_FILE, "{\"day\": ");
+
+after(() => fs.rmSync(workDir, { recursive: true, force: true }));
+
+const load = () => import("../src/api-auth");
+
+// Response stub that records the status, headers and body it was given
+function fakeResponse(locals: Record<string, unknown> = {}) {
+  const res = {
+    locals,
+    statusCode: 200,
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    setHeader(name: string, value: string) {
+      res.headers[name] = value;
+      return res;
+    },
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      res.body = body;
+      return res;
+    },
+  };
+  return res;
+}
+
+// Request stub from a client IP, with an X-API-Key header when a key is given
+function fakeRequest(ip: string, apiKey?: string) {
+  return { ip, header: (name: string) => (name === "X-API-Key" ? apiKey : undefined) };
+}
+
+// Run a middleware, telling whether it let the request through
+function run(
+  middleware: (req: Request, res: Response, next: () => void) => unknown,
+  req: ReturnType<typeof fakeRequest>,
+  res: ReturnType<typeof fakeResponse>
+) {
+  let passed = false;
+  middleware(req as unknown as Request, res as unknown as Response, () => (passed = true));
+  return passed;
+}
+
+test("spend is capped per operation and per day, and saved over an unreadable file", async () => {
+  const { reserveSpend } = await load();
+  process.env.SPEND_LIMIT_PER_OPERATION = "1";
+  process.env.SPEND_LIMIT_PER_DAY = "1.5";
+  try {
+    assert.throws(() => reserveSpend({ locals: {} }, "native", "1.1"), (error: unknown) => {
+      assert.strictEqual((error as { code?: string }).code, "SPEND_LIMIT_EXCEEDED");
+      return true;
+    });
+    reserveSpend({ locals: {} }, "native", "1");
+    assert.throws(() => reserveSpend({ locals: {} }, "native", "0.6"), /daily limit of 1.5, 0.5 left today/);
+    // Counted per source token
+    reserveSpend({ locals: {} }, "mint", "1");
+
+    const saved = JSON.parse(fs.readFileSync(process.env.SPEND_FILE!, "utf8"));
+    assert.deepStrictEqual(saved.totals, { "anonymous|native": "1.0", "anonymous|mint": "1.0" });
+  } finally {
+    delete process.env.SPEND_LIMIT_PER_OPERATION;
+    delete process.env.SPEND_LIMIT_PER_DAY;
+  }
+});
+
+test("an API key's own limits override the defaults", async () => {
+  const { reserveSpend } = await load();
+  const locals = { apiKey: { name: "small", key: "0123456789abcdef0123", maxPerOperation: "0.1" } };
+  reserveSpend({ locals }, "native", "0.1");
+  assert.throws(() => reserveSpend({ locals }, "native", "0.2"), /above the limit of 0.1 per operation/);
+});
+
+test("requests over the limit get 429 with Retry-After", async () => {
+  const { rateLimit } = await load();
+  const req = fakeRequest("10.0.0.1");
+
+  assert.ok(run(rateLimit, req, fakeResponse()));
+  const second = fakeResponse();
+  assert.ok(run(rateLimit, req, second));
+  assert.strictEqual(second.headers["X-RateLimit-Remaining"], "0");
+
+  const third = fakeResponse();
+  assert.strictEqual(run(rateLimit, req, third), false);
+  assert.strictEqual(third.statusCode, 429);
+  assert.strictEqual((third.body as { code: string }).code, "RATE_LIMITED");
+  assert.ok(Number(third.headers["Retry-After"]) > 0);
+
+  // Other clients have their own window
+  assert.ok(run(rateLimit, fakeRequest("10.0.0.2"), fakeResponse()));
+});
+
+test("clients with an API key are limited by the key", async () => {
+  const { identifyClient, rateLimit } = await load();
+  const req = fakeRequest("10.0.0.1", "0123456789abcdef0123");
+
+  // The IP is over its limit from the previous test, the key has a window of its own
+  const res = fakeResponse();
+  assert.ok(run(identifyClient, req, res));
+  assert.strictEqual((res.locals.apiKey as { name: string }).name, "ops");
+  assert.ok(run(rateLimit, req, res));
+
+  const unknown = fakeResponse();
+  assert.strictEqual(run(identifyClient, fakeRequest("10.0.0.1", "not-a-key"), unknown), false);
+  assert.strictEqual(unknown.statusCode, 401);
+});
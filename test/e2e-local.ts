@@ -0,0 +1,518 @@
+import assert from "assert";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import { createHmac } from "crypto";
+import { ethers } from "ethers";
+import type { Response } from "express";
+import { LOCAL_PRIVATE_KEY, LOCAL_RPC_URL, deployLocal, writeDeploymentConfig } from "../src/deploy-local";
+import type { FakeBridgeOptions } from "../src/fake-bridge";
+
+// End-to-end check of the staking functions against freshly deployed contracts on a local Anvil or Hardhat node.
+// The bridge leg runs on the in-process fake bridge, which mints the mock wrapped SOL on redemption.
+// Usage: e2e-local (with the node listening on LOCAL_RPC_URL, default http://127.0.0.1:8545)
+
+type Check = { name: string; run: () => Promise<void> };
+
+(async function () {
+  const rpcUrl = process.env.LOCAL_RPC_URL || LOCAL_RPC_URL;
+  const privateKey = process.env.LOCAL_PRIVATE_KEY || LOCAL_PRIVATE_KEY;
+  const workDir = fs.mkdtempSync(path.join(os.tmpdir(), "ccs-e2e-"));
+  let exitCode = 1;
+
+  try {
+    const deployment = await deployLocal(rpcUrl, privateKey);
+
+    // The app reads its config when first imported, so point it at the local deployment before importing it
+    const configFile = path.join(workDir, "deployment.json");
+    writeDeploymentConfig(configFile, deployment);
+    process.env.DEPLOYMENT_CONFIG = configFile;
+    process.env.NEXT_PUBLIC_ETH_RPC_URL = rpcUrl;
+    process.env.ETH_PRIVATE_KEY = privateKey;
+    process.env.ADMIN_PRIVATE_KEY = privateKey;
+    process.env.LEDGER_FILE = path.join(workDir, "ledger.jsonl");
+    process.env.NOTIFICATIONS_FILE = path.join(workDir, "notifications.json");
+    process.env.WEBHOOK_SECRET = "e2e-secret";
+    process.env.NOTIFY_RETRY_DELAY_MS = "50";
+    process.env.SPEND_FILE = path.join(workDir, "spend.json");
+
+    const {
+      completeCrossChainTransfer,
+      executeCrossChainTransfer,
+      executeExit,
+      executeStaking,
+      executeUnstake,
+      getStakeInfo,
+      waitForArrival,
+    } = await import("../src/cross-chain-staking");
+    const { addMinter, removeMinter } = await import("../src/admin");
+    const { findLedgerEntries } = await import("../src/ledger");
+    const { setBridgeClient } = await import("../src/bridge");
+    const { createFakeBridgeClient } = await import("../src/fake-bridge");
+    const { getServerWallet, sendTransaction } = await import("../src/evm");
+    const { listQueue, withWalletLock } = await import("../src/wallet-queue");
+    const { createStaticPriceSource, setPriceSource } = await import("../src/prices");
+    const { assessStake, getHealthAlerts, getPositionHealth } = await import("../src/valuation");
+    const { listDeliveries, notify } = await import("../src/notifications");
+    const { registry } = await import("../src/metrics");
+    const { checkReadiness } = await import("../src/health");
+    const { checkWrappedAmount, crossChainStakeSchema, parseInput } = await import("../src/validation");
+    const { reserveSpend } = await import("../src/api-auth");
+    const { AttestationTimeoutError, ContractRevertedError, SpendLimitError, ValidationError, toAppError } = await import("../src/errors");
+    const user = deployment.deployer;
+    const wallet = getServerWallet();
+
+    // Redemptions mint the bridged amount on the local node, as the token bridge would
+    const wrappedToken = new ethers.Contract(
+      deployment.wrappedToken,
+      ["function mint(address to, uint256 amount)", "function balanceOf(address account) view returns (uint256)"],
+      wallet
+    );
+    const mint = async (to: string, units: bigint) => sendTransaction(wallet, await wrappedToken.mint.populateTransaction(to, units));
+
+    // Checks don't rely on what earlier ones left behind: this closes the server wallet's position and,
+    // given an amount, mints that much wrapped SOL and stakes it
+    const startPosition = async (stake?: string) => {
+      await executeUnstake();
+      if (stake) {
+        await (await mint(user, ethers.parseUnits(stake, 8))).wait();
+        await executeStaking(user, { amount: stake });
+      }
+    };
+
+    const fakeBridge = (options: FakeBridgeOptions = {}) =>
+      createFakeBridgeClient({
+        addresses: { Sepolia: user },
+        onRedeem: async transfer => {
+          const tx = await mint(transfer.to, ethers.parseUnits(transfer.destinationAmount!, 8));
+          await tx.wait();
+          return [tx.hash];
+        },
+        ...options,
+      });
+
+    const checks: Check[] = [
+      {
+        name: "a new address has no position",
+        run: async () => {
+          assert.deepStrictEqual(await getStakeInfo("native", ethers.Wallet.createRandom().address), { stakedAmount: "0.0", loanedAmount: "0.0" });
+        },
+      },
+      {
+        name: "staking mints loan tokens at the loan ratio",
+        run: async () => {
+          await startPosition();
+          await (await mint(user, ethers.parseUnits("10", 8))).wait();
+          const result = await executeStaking(user, { amount: "10" });
+          // 10 wrapped SOL = 10e8 base units, times a loan ratio of 10
+          assert.deepStrictEqual(result, { stakedAmount: "10.0", loanedAmount: ethers.formatUnits(10n * 10n ** 8n * 10n, 18) });
+          assert.deepStrictEqual(await getStakeInfo("native", user), result);
+        },
+      },
+      {
+        name: "staking more than the wrapped balance is rejected",
+        run: async () => {
+          const balance: bigint = await wrappedToken.balanceOf(user);
+          await assert.rejects(executeStaking(user, { amount: ethers.formatUnits(balance + 1n, 8) }), /Insufficient Wrapped SOL balance/);
+        },
+      },
+      {
+        name: "partial unstake burns loan tokens in proportion",
+        run: async () => {
+          await startPosition("10");
+          const result = await executeUnstake("4");
+          assert.ok(result);
+          assert.strictEqual(result.withdrawnAmount, "4.0");
+          assert.strictEqual(result.burnedAmount, ethers.formatUnits(4n * 10n ** 8n * 10n, 18));
+          assert.strictEqual(result.newStakedAmount, "6.0");
+        },
+      },
+      {
+        name: "staking fails with a clear error when the staking contract is not a minter",
+        run: async () => {
+          await removeMinter(deployment.stakingContract);
+          try {
+            await assert.rejects(executeStaking(user, { amount: "1" }), /is not a minter of loan token/);
+          } finally {
+            await addMinter();
+          }
+        },
+      },
+      {
+        name: "unstaking without an amount closes the position",
+        run: async () => {
+          await startPosition("6");
+          const result = await executeUnstake();
+          assert.ok(result);
+          assert.strictEqual(result.withdrawnAmount, "6.0");
+          assert.deepStrictEqual(await getStakeInfo("native", user), { stakedAmount: "0.0", loanedAmount: "0.0" });
+          assert.strictEqual(await executeUnstake(), null);
+        },
+      },
+      {
+        name: "a bridged transfer is redeemed, arrives and can be staked",
+        run: async () => {
+          await startPosition();
+          setBridgeClient(fakeBridge());
+          const transfer = await executeCrossChainTransfer("2.5");
+          assert.strictEqual(transfer.destinationAmount, "2.5");
+          assert.strictEqual(transfer.redeemHashes.length, 1);
+
+          await waitForArrival(transfer.destinationAddress, transfer.amount, {
+            redeemTxids: transfer.redeemHashes,
+            balanceBefore: transfer.balanceBefore,
+            destinationAmount: transfer.destinationAmount,
+            timeout: 10_000,
+          });
+          const result = await executeStaking(user, { amount: transfer.destinationAmount });
+          assert.ok(result);
+          assert.strictEqual(result.stakedAmount, "2.5");
+        },
+      },
+      {
+        name: "a delayed VAA is waited for before redeeming",
+        run: async () => {
+          setBridgeClient(fakeBridge({ attestationDelay: 1000 }));
+          const phases: string[] = [];
+          const started = Date.now();
+          const transfer = await executeCrossChainTransfer("1", phase => {
+            phases.push(phase);
+          });
+          assert.ok(Date.now() - started >= 1000);
+          assert.deepStrictEqual(phases, ["initiated", "attested", "redeemed"]);
+          assert.strictEqual(transfer.redeemHashes.length, 1);
+        },
+      },
+      {
+        name: "an attestation timeout leaves the transfer resumable",
+        run: async () => {
+          const bridge = fakeBridge({ attestationDelay: 1500 });
+          setBridgeClient(bridge);
+          // Initiated by a run that died before the VAA was signed
+          const initiated = await bridge.initiateTransfer({ fromChain: "Solana", toChain: "Sepolia", token: "native", amount: "0.5", automatic: false });
+          const txid = initiated.txids[0];
+
+          await assert.rejects(completeCrossChainTransfer(txid, undefined, 200), (error: unknown) => {
+            assert.ok(error instanceof AttestationTimeoutError);
+            assert.strictEqual(error.txid, txid);
+            return true;
+          });
+          const resumed = await completeCrossChainTransfer(txid, undefined, 5000);
+          assert.strictEqual(resumed.amount, "0.5");
+          assert.strictEqual(resumed.redeemHashes.length, 1);
+        },
+      },
+      {
+        name: "a recovered native SOL transfer stakes into the native pool",
+        run: async () => {
+          const bridge = fakeBridge();
+          setBridgeClient(bridge);
+          const initiated = await bridge.initiateTransfer({ fromChain: "Solana", toChain: "Sepolia", token: "native", amount: "0.25", automatic: false });
+          const txid = initiated.txids[0];
+
+          // The bridge names the wrapped SOL mint, as the SDK does
+          const recovered = await bridge.recoverTransfer("Solana", txid, 1000);
+          assert.strictEqual(recovered.token, await bridge.getNativeWrappedToken("Solana"));
+          const resumed = await completeCrossChainTransfer(txid, undefined, 5000);
+          assert.strictEqual(resumed.sourceToken, "native");
+          assert.strictEqual(resumed.redeemHashes.length, 1);
+          const [entry] = findLedgerEntries();
+          assert.deepStrictEqual([entry.type, entry.status, entry.token, entry.amount], ["transfer", "completed", "native", "0.25"]);
+          assert.deepStrictEqual(entry.transactions.map(tx => tx.hash), [txid, ...resumed.redeemHashes]);
+        },
+      },
+      {
+        name: "a transfer someone else already redeemed completes without redeeming",
+        run: async () => {
+          setBridgeClient(fakeBridge({ alreadyCompleted: true }));
+          const transfer = await executeCrossChainTransfer("1");
+          assert.deepStrictEqual(transfer.redeemHashes, []);
+          await waitForArrival(transfer.destinationAddress, transfer.amount, { balanceBefore: transfer.balanceBefore, timeout: 10_000 });
+        },
+      },
+      {
+        name: "a failed initiation sends nothing and is recorded",
+        run: async () => {
+          setBridgeClient(fakeBridge({ initiateError: new Error("Transaction simulation failed: insufficient lamports") }));
+          await assert.rejects(executeCrossChainTransfer("1"), { code: "INSUFFICIENT_BALANCE", status: 422 });
+          assert.match(findLedgerEntries()[0].error!, /insufficient lamports/);
+        },
+      },
+      {
+        name: "concurrent sends from the server wallet get consecutive nonces",
+        run: async () => {
+          const txs = await Promise.all([1n, 2n, 3n].map(units => mint(user, units)));
+          const nonces = txs.map(tx => tx.nonce).sort((a, b) => a - b);
+          assert.deepStrictEqual(nonces, [nonces[0], nonces[0] + 1, nonces[0] + 2]);
+          const receipts = await Promise.all(txs.map(tx => tx.wait()));
+          assert.ok(receipts.every(receipt => receipt?.status === 1));
+        },
+      },
+      {
+        name: "operations on the server wallet run one at a time in arrival order",
+        run: async () => {
+          const order: string[] = [];
+          const operation = (id: string) =>
+            withWalletLock(wallet.address, { id, type: "stake" }, async () => {
+              order.push(`${id} start`);
+              await new Promise(resolve => setTimeout(resolve, 50));
+              order.push(`${id} end`);
+            });
+          const done = Promise.all([operation("first"), operation("second")]);
+          assert.deepStrictEqual(listQueue().map(entry => `${entry.id}:${entry.status}:${entry.position}`), ["first:running:0", "second:waiting:1"]);
+          await done;
+          assert.deepStrictEqual(order, ["first start", "first end", "second start", "second end"]);
+          assert.deepStrictEqual(listQueue(), []);
+        },
+      },
+      {
+        name: "positions are valued and alert when their health status changes",
+        run: async () => {
+          await startPosition("1");
+          setPriceSource(createStaticPriceSource({ [deployment.wrappedToken]: "20", [deployment.loanToken]: "1" }));
+          const health = await getPositionHealth("native", user);
+          const stakeInfo = await getStakeInfo("native", user);
+          assert.strictEqual(health.stakedAmount, stakeInfo.stakedAmount);
+          assert.strictEqual(health.collateralPrice, "20");
+          assert.strictEqual(health.status, "healthy");
+
+          // 20 USD of collateral against 12 and then 16 USD of loan tokens, at the default 0.8 threshold
+          const warning = await assessStake("native", user, { stakedAmount: "1", loanedAmount: "12" });
+          assert.strictEqual(warning.status, "warning");
+          const critical = await assessStake("native", user, { stakedAmount: "1", loanedAmount: "16" });
+          assert.deepStrictEqual([critical.collateralValue, critical.loanValue, critical.loanToValue, critical.healthFactor], ["20.0", "16.0", "0.8", "1.0"]);
+          assert.strictEqual(critical.status, "critical");
+
+          const alerts = getHealthAlerts(2);
+          assert.deepStrictEqual(alerts.map(alert => `${alert.previousStatus}>${alert.status}`), ["warning>critical", "healthy>warning"]);
+          assert.ok(alerts.every(alert => alert.address === ethers.getAddress(user)));
+        },
+      },
+      {
+        name: "notifications are signed, retried until delivered and logged",
+        run: async () => {
+          // The first request fails, so the delivery has to be retried
+          const received: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+          const receiver = http.createServer((req, res) => {
+            let body = "";
+            req.on("data", chunk => (body += chunk));
+            req.on("end", () => {
+              received.push({ headers: req.headers, body });
+              res.statusCode = received.length === 1 ? 500 : 200;
+              res.end();
+            });
+          });
+          await new Promise<void>(resolve => receiver.listen(0, "127.0.0.1", resolve));
+          // Channels are read from the environment on the first notification
+          process.env.WEBHOOK_URLS = `http://127.0.0.1:${(receiver.address() as { port: number }).port}/hook`;
+
+          try {
+            const [delivery] = notify("job.failed", "Cross-chain stake failed", "Job e2e failed", { jobId: "e2e" });
+            for (let i = 0; i < 100 && delivery.status === "pending"; i++) {
+              await new Promise(resolve => setTimeout(resolve, 50));
+            }
+            assert.strictEqual(delivery.status, "delivered");
+            assert.strictEqual(delivery.attempts, 2);
+            assert.strictEqual(received.length, 2);
+
+            const { headers, body } = received[1];
+            const signature = createHmac("sha256", "e2e-secret").update(`${headers["x-timestamp"]}.${body}`).digest("hex");
+            assert.strictEqual(headers["x-signature"], `sha256=${signature}`);
+            assert.strictEqual(JSON.parse(body).event, "job.failed");
+            assert.strictEqual(listDeliveries({ status: "delivered" })[0].id, delivery.id);
+          } finally {
+            receiver.close();
+          }
+        },
+      },
+      {
+        name: "nothing is sent while the base fee is above the fee cap",
+        run: async () => {
+          process.env.EVM_MAX_FEE_PER_GAS_GWEI = "0.000000001";
+          try {
+            await assert.rejects(executeStaking(user, { amount: "0.1" }), /above EVM_MAX_FEE_PER_GAS_GWEI/);
+          } finally {
+            delete process.env.EVM_MAX_FEE_PER_GAS_GWEI;
+          }
+        },
+      },
+      {
+        name: "metrics count transfers, attestation waits and operations",
+        run: async () => {
+          // Value of a counter, or of a histogram's _count series
+          const value = async (name: string, labels: Record<string, string>) => {
+            const { values } = await registry.getSingleMetric(name)!.get();
+            const sample = values.find(entry =>
+              ((entry as { metricName?: string }).metricName ?? `${name}_count`) === `${name}_count` &&
+              Object.entries(labels).every(([key, label]) => entry.labels[key] === label)
+            );
+            return sample?.value ?? 0;
+          };
+          const samples = () =>
+            Promise.all([
+              value("ccs_transfers_total", { from_chain: "Solana", status: "completed" }),
+              value("ccs_transfers_total", { from_chain: "Solana", status: "failed" }),
+              value("ccs_attestation_wait_seconds", { status: "timeout" }),
+              value("ccs_operation_duration_seconds", { operation: "redeem", status: "completed" }),
+              value("ccs_operation_duration_seconds", { operation: "stake", status: "completed" }),
+              value("ccs_operation_duration_seconds", { operation: "unstake", status: "completed" }),
+            ]);
+
+          await startPosition();
+          const before = await samples();
+          setBridgeClient(fakeBridge());
+          await executeCrossChainTransfer("1");
+          setBridgeClient(fakeBridge({ initiateError: new Error("Transaction simulation failed") }));
+          await assert.rejects(executeCrossChainTransfer("1"));
+          const bridge = fakeBridge({ attestationDelay: 60_000 });
+          setBridgeClient(bridge);
+          const initiated = await bridge.initiateTransfer({ fromChain: "Solana", toChain: "Sepolia", token: "native", amount: "1", automatic: false });
+          await assert.rejects(completeCrossChainTransfer(initiated.txids[0], undefined, 100), AttestationTimeoutError);
+          await startPosition("1");
+          await executeUnstake();
+
+          const after = await samples();
+          assert.deepStrictEqual(after.map((sample, i) => sample - before[i]), [1, 1, 1, 1, 1, 1]);
+        },
+      },
+      {
+        name: "readiness reports on the destination chain, signers and contracts",
+        run: async () => {
+          // The source chain check needs the public Solana RPC, which a local run may not reach
+          const { ready, checks } = await checkReadiness();
+          const byName = Object.fromEntries(checks.map(check => [check.name, check]));
+          assert.ok(byName["rpc:Sepolia"].ok, byName["rpc:Sepolia"].error);
+          assert.ok(byName.contracts.ok, byName.contracts.error);
+          // Local runs only sign on the destination chain
+          assert.strictEqual(byName.signers.error, "Missing SOL_PRIVATE_KEY");
+          assert.strictEqual(ready, false);
+        },
+      },
+      {
+        name: "amounts are validated against the token's decimals and the spend limits",
+        run: async () => {
+          assert.deepStrictEqual(parseInput(crossChainStakeSchema, { amount: 0.5, automatic: "true" }), {
+            amount: "0.5",
+            token: "native",
+            automatic: true,
+            dryRun: false,
+          });
+          for (const amount of ["0", "-1", "1e-7", 1e-7, "0x10", " ", "1.2.3"]) {
+            assert.throws(() => parseInput(crossChainStakeSchema, { amount }), ValidationError, `amount ${amount}`);
+          }
+          assert.throws(() => parseInput(crossChainStakeSchema, { amount: "1", nativeGas: "0.1" }), /nativeGas requires automatic mode/);
+
+          // The mock wrapped SOL has 8 decimals; trailing zeros don't add precision
+          await checkWrappedAmount("1.12345678", "native", "amount");
+          await checkWrappedAmount("1.123456780", "native", "amount");
+          await assert.rejects(checkWrappedAmount("1.123456789", "native", "amount"), /amount has more than 8 decimal places/);
+
+          process.env.SPEND_LIMIT_PER_OPERATION = "2";
+          process.env.SPEND_LIMIT_PER_DAY = "3";
+          try {
+            const res: Pick<Response, "locals"> = { locals: { apiKey: { name: "spend-check", key: "spend-check-0123456789" } } };
+            assert.throws(() => reserveSpend(res, "native", "2.5"), SpendLimitError);
+            reserveSpend(res, "native", "2");
+            assert.throws(() => reserveSpend(res, "native", "1.000000001"), /1.0 left today/);
+            reserveSpend(res, "native", "1");
+            // Other keys have their own budget
+            const other: Pick<Response, "locals"> = { locals: { apiKey: { name: "spend-check-other", key: "spend-check-other-0123" } } };
+            reserveSpend(other, "native", "2");
+          } finally {
+            delete process.env.SPEND_LIMIT_PER_OPERATION;
+            delete process.env.SPEND_LIMIT_PER_DAY;
+          }
+        },
+      },
+      {
+        name: "chain errors are classified with stable codes and decoded revert reasons",
+        run: async () => {
+          const stranger = ethers.Wallet.createRandom().address;
+          const staking = new ethers.Contract(deployment.stakingContract, ["function unstake(uint256 amount)"], wallet.provider);
+          const token = new ethers.Contract(deployment.wrappedToken, ["function transfer(address to, uint256 amount) returns (bool)"], wallet.provider);
+
+          const revert = toAppError(await staking.unstake.staticCall(1n, { from: stranger }).catch(error => error));
+          assert.ok(revert instanceof ContractRevertedError);
+          assert.strictEqual(revert.reason, "Insufficient staked amount");
+          assert.strictEqual(revert.status, 422);
+
+          // OpenZeppelin's custom errors aren't in the ABI used for the call
+          const custom = toAppError(await token.transfer.staticCall(user, 1n, { from: stranger }).catch(error => error));
+          assert.ok(custom instanceof ContractRevertedError);
+          assert.strictEqual(custom.reason, `ERC20InsufficientBalance(${stranger}, 0, 1)`);
+
+          assert.strictEqual(toAppError(new Error("execution reverted: transfer already completed")).code, "ALREADY_REDEEMED");
+          assert.strictEqual(toAppError(new Error("request to http://127.0.0.1:1 failed, reason: connect ECONNREFUSED")).code, "RPC_UNAVAILABLE");
+          assert.strictEqual(toAppError(new Error("something else")).status, 500);
+        },
+      },
+      {
+        name: "an exit whose transfer fails after the unstake records the failed transfer",
+        run: async () => {
+          await startPosition("1");
+          const before = findLedgerEntries().length;
+          setBridgeClient(fakeBridge({ initiateError: new Error("Transaction simulation failed") }));
+          await assert.rejects(executeExit(), /Transaction simulation failed/);
+
+          const entries = findLedgerEntries();
+          const recorded = entries.slice(0, entries.length - before).reverse();
+          assert.deepStrictEqual(
+            recorded.map(entry => `${entry.type}:${entry.status}`),
+            ["unstake:completed", "transfer:failed"]
+          );
+          assert.strictEqual(recorded[1].fromChain, "Sepolia");
+          assert.strictEqual(recorded[1].toChain, "Solana");
+          assert.strictEqual(recorded[1].amount, "1.0");
+          assert.match(recorded[1].error!, /Transaction simulation failed/);
+        },
+      },
+      {
+        name: "every operation is recorded in the ledger",
+        run: async () => {
+          await startPosition();
+          const before = findLedgerEntries().length;
+          await (await mint(user, ethers.parseUnits("1", 8))).wait();
+          await executeStaking(user, { amount: "1" });
+          const balance: bigint = await wrappedToken.balanceOf(user);
+          await assert.rejects(executeStaking(user, { amount: ethers.formatUnits(balance + 1n, 8) }));
+          await executeUnstake();
+          setBridgeClient(fakeBridge());
+          await executeCrossChainTransfer("1");
+          setBridgeClient(fakeBridge({ initiateError: new Error("Transaction simulation failed") }));
+          await assert.rejects(executeCrossChainTransfer("1"));
+
+          // Newest first, so the entries of this check are the first ones
+          const entries = findLedgerEntries();
+          const recorded = entries.slice(0, entries.length - before).reverse();
+          assert.deepStrictEqual(
+            recorded.map(entry => `${entry.type}:${entry.status}`),
+            ["stake:completed", "stake:failed", "unstake:completed", "transfer:completed", "transfer:failed"]
+          );
+          assert.ok(recorded.slice(0, 3).every(entry => entry.address === user));
+          assert.deepStrictEqual(recorded[3].transactions.map(tx => tx.label), ["initiate", "redeem"]);
+          assert.match(recorded[4].error!, /Transaction simulation failed/);
+        },
+      },
+    ];
+
+    let failed = 0;
+    for (const check of checks) {
+      try {
+        await check.run();
+        console.log(`ok - ${check.name}`);
+      } catch (error) {
+        failed++;
+        console.error(`not ok - ${check.name}\n`, error);
+      }
+    }
+
+    console.log(`${checks.length - failed}/${checks.length} checks passed`);
+    exitCode = failed > 0 ? 1 : 0;
+  } catch (error) {
+    console.error("End-to-end run failed:", error);
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+  process.exit(exitCode);
+})();
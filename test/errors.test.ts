@@ -0,0 +1,65 @@
+import assert from "assert";
+import { test } from "node:test";
+import { ethers } from "ethers";
+import {
+  AlreadyRedeemedError,
+  AppError,
+  AttestationTimeoutError,
+  ContractRevertedError,
+  InsufficientBalanceError,
+  RpcUnavailableError,
+  ValidationError,
+  toAppError,
+} from "../src/errors";
+
+test("each error class carries its code and HTTP status", () => {
+  const error = new ValidationError("amount must be greater than zero");
+  assert.strictEqual(error.code, "INVALID_REQUEST");
+  assert.strictEqual(error.status, 400);
+  assert.strictEqual(error.name, "ValidationError");
+  assert.strictEqual(new AttestationTimeoutError("not signed", "txid").status, 504);
+});
+
+test("app errors are passed through unchanged", () => {
+  const error = new InsufficientBalanceError("not enough");
+  assert.strictEqual(toAppError(error), error);
+});
+
+test("token bridge and SDK messages are classified", () => {
+  assert.ok(toAppError(new Error("execution reverted: transfer already completed")) instanceof AlreadyRedeemedError);
+  assert.ok(toAppError(new Error("VAA not found")) instanceof AttestationTimeoutError);
+  assert.ok(toAppError(new Error("Attempt to debit an account but found no record of a prior credit.")) instanceof InsufficientBalanceError);
+  assert.ok(toAppError(new TypeError("fetch failed")) instanceof RpcUnavailableError);
+});
+
+test("ethers errors are classified by their code", () => {
+  const funds = ethers.makeError("insufficient funds for intrinsic transaction cost", "INSUFFICIENT_FUNDS", { transaction: {} });
+  assert.ok(toAppError(funds) instanceof InsufficientBalanceError);
+
+  const network = ethers.makeError("network error", "NETWORK_ERROR", { event: "noNetwork" });
+  assert.strictEqual(toAppError(network).code, "RPC_UNAVAILABLE");
+});
+
+test("reverts carry the decoded custom error", () => {
+  const iface = new ethers.Interface(["error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)"]);
+  const sender = ethers.Wallet.createRandom().address;
+  const revert = ethers.makeError("execution reverted", "CALL_EXCEPTION", {
+    action: "estimateGas",
+    data: iface.encodeErrorResult("ERC20InsufficientBalance", [sender, 1n, 2n]),
+    reason: null,
+    transaction: { to: null, data: "0x" },
+    invocation: null,
+    revert: null,
+  });
+
+  const error = toAppError(revert);
+  assert.ok(error instanceof ContractRevertedError);
+  assert.strictEqual(error.reason, `ERC20InsufficientBalance(${sender}, 1, 2)`);
+});
+
+test("anything else is an internal error with its own message", () => {
+  const error = toAppError("something odd");
+  assert.ok(error instanceof AppError);
+  assert.strictEqual(error.code, "INTERNAL_ERROR");
+  assert.strictEqual(error.message, "something odd");
+});
@@ -0,0 +1,79 @@
+import assert from "assert";
+import { test } from "node:test";
+import { BridgeTransferRequest } from "../src/bridge";
+import { AmountTooLowError } from "../src/errors";
+import { createFakeBridgeClient } from "../src/fake-bridge";
+
+const request: BridgeTransferRequest = { fromChain: "Solana", toChain: "Sepolia", token: "native", amount: "1.5", automatic: false };
+
+test("quotes truncate to the wrapped token's decimals and deduct the relayer fee", async () => {
+  const bridge = createFakeBridgeClient({ relayerFee: "0.1" });
+
+  const manual = await bridge.quoteTransfer({ ...request, amount: "1.123456789" });
+  assert.strictEqual(manual.destinationAmount, "1.12345678");
+  assert.strictEqual(manual.relayerFee, "0.0");
+
+  const automatic = await bridge.quoteTransfer({ ...request, automatic: true });
+  assert.strictEqual(automatic.destinationAmount, "1.4");
+  assert.strictEqual(automatic.relayerFee, "0.1");
+
+  await assert.rejects(bridge.quoteTransfer({ ...request, amount: "0.05", automatic: true }), AmountTooLowError);
+});
+
+test("a manual transfer is attested, redeemed once and reported complete", async () => {
+  const redeemed: string[] = [];
+  const bridge = createFakeBridgeClient({
+    onRedeem: async transfer => {
+      redeemed.push(transfer.amount);
+      return ["0xredeem"];
+    },
+  });
+
+  const transfer = await bridge.initiateTransfer(request);
+  assert.strictEqual(transfer.txids.length, 1);
+  assert.strictEqual(transfer.destinationAmount, "1.5");
+  assert.strictEqual(transfer.to, await bridge.getAddress("Sepolia"));
+
+  assert.strictEqual((await bridge.fetchAttestation(transfer, 1000)).length, 1);
+  assert.strictEqual(await bridge.isTransferComplete(transfer), false);
+  assert.deepStrictEqual(await bridge.completeTransfer(transfer), ["0xredeem"]);
+  assert.strictEqual(await bridge.isTransferComplete(transfer), true);
+  assert.deepStrictEqual(redeemed, ["1.5"]);
+
+  await assert.rejects(bridge.completeTransfer(transfer), /transfer already completed/);
+});
+
+test("a VAA that isn't signed in time fails as the SDK does", async () => {
+  const bridge = createFakeBridgeClient({ attestationDelay: Infinity });
+  const transfer = await bridge.initiateTransfer(request);
+
+  await assert.rejects(bridge.fetchAttestation(transfer, 20), /VAA not found/);
+  await assert.rejects(bridge.completeTransfer(transfer), /No VAA available/);
+});
+
+test("the relayer redeems automatic transfers after its delay", async () => {
+  const bridge = createFakeBridgeClient({ relayDelay: 50 });
+  const transfer = await bridge.initiateTransfer({ ...request, automatic: true });
+  await bridge.fetchAttestation(transfer, 1000);
+
+  assert.strictEqual(await bridge.isTransferComplete(transfer), false);
+  await new Promise(resolve => setTimeout(resolve, 60));
+  assert.strictEqual(await bridge.isTransferComplete(transfer), true);
+});
+
+test("recovered native transfers name the wrapped SOL mint", async () => {
+  const bridge = createFakeBridgeClient();
+  const transfer = await bridge.initiateTransfer(request);
+
+  const recovered = await bridge.recoverTransfer("Solana", transfer.txids[0], 1000);
+  assert.strictEqual(recovered.token, await bridge.getNativeWrappedToken("Solana"));
+  assert.strictEqual(recovered.amount, "1.5");
+  await assert.rejects(bridge.recoverTransfer("Solana", "unknown", 1000), /No token transfer found/);
+});
+
+test("tokens without a wrapped counterpart are refused", async () => {
+  const bridge = createFakeBridgeClient({ wrappedTokens: { mint: "0x0000000000000000000000000000000000000001" } });
+
+  assert.strictEqual(await bridge.lookupWrappedToken("Solana", "Sepolia", "mint"), "0x0000000000000000000000000000000000000001");
+  await assert.rejects(bridge.lookupWrappedToken("Solana", "Sepolia", "other"), /has no wrapped token/);
+});
@@ -0,0 +1,64 @@
+import assert from "assert";
+import { test } from "node:test";
+import { ValidationError } from "../src/errors";
+import {
+  checkPrecision,
+  crossChainStakeSchema,
+  emergencyWithdrawSchema,
+  loanRatioSchema,
+  parseInput,
+  unstakeSchema,
+  walletTransferSchema,
+} from "../src/validation";
+
+test("amounts stay decimal strings and the token defaults to native", () => {
+  assert.deepStrictEqual(parseInput(crossChainStakeSchema, { amount: 0.5 }), { amount: "0.5", token: "native", automatic: false, dryRun: false });
+  assert.strictEqual(parseInput(crossChainStakeSchema, { amount: " 2.000000001 ", automatic: "true" }).amount, "2.000000001");
+});
+
+test("every invalid field is named in one message", () => {
+  assert.throws(
+    () => parseInput(crossChainStakeSchema, { amount: "1e3", nativeGas: "-1" }),
+    (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.match(error.message, /^amount must be a decimal number such as 0.5; nativeGas must be a decimal number/);
+      return true;
+    }
+  );
+});
+
+test("zero and missing amounts are refused, an omitted unstake amount is the whole position", () => {
+  assert.throws(() => parseInput(crossChainStakeSchema, { amount: "0.0" }), /amount must be greater than zero/);
+  assert.throws(() => parseInput(crossChainStakeSchema, {}), /amount is required/);
+  assert.throws(() => parseInput(crossChainStakeSchema, { amount: true }), /amount must be a decimal number such as 0.5/);
+  assert.strictEqual(parseInput(unstakeSchema, undefined).amount, undefined);
+});
+
+test("cross-field rules", () => {
+  assert.throws(() => parseInput(crossChainStakeSchema, { amount: "1", nativeGas: "0.1" }), /nativeGas requires automatic mode/);
+  assert.throws(() => parseInput(crossChainStakeSchema, { amount: "1", stakeAmount: "1", stakeAll: true }), /either stakeAmount or stakeAll/);
+});
+
+test("addresses are checked against their chain", () => {
+  const transfer = {
+    amount: "1",
+    sender: "So11111111111111111111111111111111111111112",
+    recipient: "0x0000000000000000000000000000000000000001",
+  };
+  assert.strictEqual(parseInput(walletTransferSchema, transfer).sender, transfer.sender);
+  assert.throws(() => parseInput(walletTransferSchema, { ...transfer, sender: transfer.recipient }), /sender must be a valid Solana address/);
+  assert.throws(() => parseInput(walletTransferSchema, { ...transfer, recipient: "0x123" }), /recipient must be a valid EVM address/);
+});
+
+test("admin bodies", () => {
+  assert.strictEqual(parseInput(loanRatioSchema, { ratio: 10 }).ratio, "10");
+  assert.throws(() => parseInput(loanRatioSchema, { ratio: "1.5" }), /ratio must be a positive whole number/);
+  assert.throws(() => parseInput(loanRatioSchema, { ratio: "0" }), /ratio must be a positive whole number/);
+  assert.throws(() => parseInput(emergencyWithdrawSchema, { amount: "1" }), /tokenAddress Required/);
+});
+
+test("amounts may not be more precise than their token", () => {
+  checkPrecision("1.123456789", 9, "amount");
+  checkPrecision("1.10000000000", 9, "amount");
+  assert.throws(() => checkPrecision("1.123456789", 8, "stakeAmount"), /stakeAmount has more than 8 decimal places/);
+});
@@ -0,0 +1,61 @@
+import assert from "assert";
+import { test } from "node:test";
+import { getQueuePosition, getWalletOperation, listQueue, withWalletLock } from "../src/wallet-queue";
+
+// Promise with its resolve function, to hold an operation until the test lets it finish
+function deferred() {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => (resolve = done));
+  return { promise, resolve };
+}
+
+test("operations on one wallet run one at a time, in order", async () => {
+  const order: string[] = [];
+  const first = deferred();
+
+  const running = withWalletLock("0xwallet", { id: "a", type: "stake" }, async () => {
+    order.push("a started");
+    await first.promise;
+    order.push("a finished");
+  });
+  const waiting = withWalletLock("0xwallet", { id: "b", type: "unstake" }, async () => {
+    order.push("b started");
+  });
+
+  // Queued synchronously, so the second one is already in line
+  assert.deepStrictEqual(
+    listQueue().map(({ id, status, position }) => ({ id, status, position })),
+    [
+      { id: "a", status: "running", position: 0 },
+      { id: "b", status: "waiting", position: 1 },
+    ]
+  );
+  assert.strictEqual(getWalletOperation("0xwallet")?.id, "a");
+  assert.strictEqual(getQueuePosition("b"), 1);
+
+  first.resolve();
+  await Promise.all([running, waiting]);
+  assert.deepStrictEqual(order, ["a started", "a finished", "b started"]);
+  assert.deepStrictEqual(listQueue(), []);
+  assert.strictEqual(getQueuePosition("b"), undefined);
+});
+
+test("a failed operation hands the wallet to the next one", async () => {
+  const failing = withWalletLock("0xwallet", { id: "c", type: "exit" }, async () => {
+    throw new Error("reverted");
+  });
+  const next = withWalletLock("0xwallet", { id: "d", type: "stake" }, async () => "done");
+
+  await assert.rejects(failing, /reverted/);
+  assert.strictEqual(await next, "done");
+  assert.strictEqual(getWalletOperation("0xwallet"), undefined);
+});
+
+test("different wallets don't wait for each other", async () => {
+  const held = deferred();
+  const first = withWalletLock("0xfirst", { id: "e", type: "stake" }, () => held.promise);
+
+  assert.strictEqual(await withWalletLock("0xsecond", { id: "f", type: "stake" }, async () => "ran"), "ran");
+  held.resolve();
+  await first;
+});